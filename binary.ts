@@ -0,0 +1,127 @@
+import { open } from "node:fs/promises";
+import { formatSize } from "@mariozechner/pi-coding-agent";
+
+// Same heuristic git uses: a NUL byte in the first 8000 bytes marks the file as binary.
+const BINARY_SNIFF_BYTES = 8000;
+
+// Leading bytes shown in the hexdump of a binary block.
+const HEXDUMP_BYTES = 64;
+const HEXDUMP_ROW_BYTES = 16;
+
+interface Magic {
+	type: string;
+	bytes: number[] | string;
+	offset?: number;
+	mimeType?: string; // set for the formats Pi's read tool returns as image attachments
+}
+
+// Checked in order; the first match names the file type.
+const MAGIC_NUMBERS: Magic[] = [
+	{ type: "PNG image", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mimeType: "image/png" },
+	{ type: "JPEG image", bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg" },
+	{ type: "GIF image", bytes: "GIF8", mimeType: "image/gif" },
+	{ type: "WebP image", bytes: "WEBP", offset: 8, mimeType: "image/webp" },
+	{ type: "BMP image", bytes: "BM" },
+	{ type: "ICO image", bytes: [0x00, 0x00, 0x01, 0x00] },
+	{ type: "PDF document", bytes: "%PDF-" },
+	{ type: "ELF executable", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+	{ type: "Mach-O executable", bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+	{ type: "Mach-O executable", bytes: [0xce, 0xfa, 0xed, 0xfe] },
+	{ type: "Java class file or Mach-O universal binary", bytes: [0xca, 0xfe, 0xba, 0xbe] },
+	{ type: "Windows executable", bytes: "MZ" },
+	{ type: "WebAssembly module", bytes: [0x00, 0x61, 0x73, 0x6d] },
+	{ type: "SQLite database", bytes: "SQLite format 3\0" },
+	{ type: "ZIP archive", bytes: [0x50, 0x4b, 0x03, 0x04] },
+	{ type: "gzip archive", bytes: [0x1f, 0x8b] },
+	{ type: "bzip2 archive", bytes: "BZh" },
+	{ type: "xz archive", bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+	{ type: "zstd archive", bytes: [0x28, 0xb5, 0x2f, 0xfd] },
+	{ type: "7-Zip archive", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+	{ type: "tar archive", bytes: "ustar", offset: 257 },
+	{ type: "WOFF font", bytes: "wOFF" },
+	{ type: "WOFF2 font", bytes: "wOF2" },
+	{ type: "OpenType font", bytes: "OTTO" },
+	{ type: "TrueType font", bytes: [0x00, 0x01, 0x00, 0x00] },
+	{ type: "MP3 audio", bytes: "ID3" },
+	{ type: "Ogg media", bytes: "OggS" },
+	{ type: "MP4 media", bytes: "ftyp", offset: 4 },
+];
+
+/** What a binary block shows instead of the file's bytes. */
+export interface BinaryFile {
+	size: number; // bytes
+	type: string; // detected from magic bytes, or "unknown binary data"
+	image: boolean; // a format Pi's read tool attaches as an image when read from disk
+	head: Buffer; // leading bytes, for the hexdump
+}
+
+function matchesMagic(head: Buffer, magic: Magic): boolean {
+	const bytes = typeof magic.bytes === "string" ? Buffer.from(magic.bytes, "latin1") : Buffer.from(magic.bytes);
+	const offset = magic.offset ?? 0;
+	return head.length >= offset + bytes.length && head.subarray(offset, offset + bytes.length).equals(bytes);
+}
+
+/**
+ * Describes content whose first bytes are `head` as a binary file, or returns undefined for text.
+ * `size` is the full content size in bytes.
+ */
+export function detectBinary(head: Buffer, size: number): BinaryFile | undefined {
+	const sniffed = head.subarray(0, BINARY_SNIFF_BYTES);
+	if (!sniffed.includes(0)) {
+		return undefined;
+	}
+	const magic = MAGIC_NUMBERS.find((candidate) => matchesMagic(sniffed, candidate));
+	return {
+		size,
+		type: magic?.type ?? "unknown binary data",
+		image: magic?.mimeType !== undefined,
+		head: Buffer.from(sniffed.subarray(0, HEXDUMP_BYTES)),
+	};
+}
+
+/** MIME type of content starting with `head` when it is an image Pi's read tool attaches. */
+export function detectImageMimeType(head: Buffer): string | undefined {
+	return MAGIC_NUMBERS.find((magic) => magic.mimeType !== undefined && matchesMagic(head, magic))?.mimeType;
+}
+
+/** Sniffs a file on disk; undefined for text files and files that cannot be opened. */
+export async function detectBinaryFile(absolutePath: string): Promise<BinaryFile | undefined> {
+	let handle: Awaited<ReturnType<typeof open>> | undefined;
+	try {
+		handle = await open(absolutePath, "r");
+		const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+		const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+		return detectBinary(buffer.subarray(0, bytesRead), (await handle.stat()).size);
+	} catch {
+		// Unreadable files are left to the read, which reports a proper per-file error.
+		return undefined;
+	} finally {
+		await handle?.close();
+	}
+}
+
+export async function isBinaryFile(absolutePath: string): Promise<boolean> {
+	return (await detectBinaryFile(absolutePath)) !== undefined;
+}
+
+/** `hexdump -C` style rows: offset, sixteen hex bytes split in two groups, printable ASCII. */
+function formatHexdump(bytes: Buffer): string {
+	const rows: string[] = [];
+	for (let offset = 0; offset < bytes.length; offset += HEXDUMP_ROW_BYTES) {
+		const row = bytes.subarray(offset, offset + HEXDUMP_ROW_BYTES);
+		const hex = Array.from({ length: HEXDUMP_ROW_BYTES }, (_, i) =>
+			i < row.length ? row[i].toString(16).padStart(2, "0") : "  ",
+		);
+		const ascii = Array.from(row, (byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("");
+		rows.push(
+			`${offset.toString(16).padStart(8, "0")}  ${hex.slice(0, 8).join(" ")}  ${hex.slice(8).join(" ")}  |${ascii}|`,
+		);
+	}
+	return rows.join("\n");
+}
+
+/** Body of a binary block: size and detected type, then a hexdump of the leading bytes. */
+export function formatBinaryBody(binary: BinaryFile): string {
+	const summary = `[Binary file: ${binary.type}, ${formatSize(binary.size)}. First ${binary.head.length} bytes:]`;
+	return `${summary}\n${formatHexdump(binary.head)}`;
+}
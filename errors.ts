@@ -0,0 +1,157 @@
+import type { Dirent } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { basename, dirname, extname, posix, relative, sep } from "node:path";
+import { createGitignoreFilter, listFiles, matchFiles, resolveInputPath } from "./expand.js";
+import { checkPathPolicy, type PolicySource } from "./policy.js";
+import { editDistance } from "./symbols.js";
+
+/** Why a file block is an error block; `read_failed` covers everything else. */
+export type ReadErrorCode =
+	| "not_found"
+	| "is_directory"
+	| "permission_denied"
+	| "binary"
+	| "too_large"
+	| "aborted"
+	| "policy_denied"
+	| "read_failed";
+
+/** A failure read_many detects itself, with its code. */
+export class ReadError extends Error {
+	constructor(
+		readonly code: ReadErrorCode,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+// Existing paths listed under a not_found error.
+const MAX_PATH_SUGGESTIONS = 3;
+
+// Workspace files compared against a missing path; the missing path's own directory is always scanned too.
+const MAX_SCANNED_FILES = 10_000;
+
+// Directory entries listed under an is_directory error.
+const MAX_LISTING_ENTRIES = 20;
+
+const ERRNO_CODES: Record<string, ReadErrorCode> = {
+	ENOENT: "not_found",
+	ENOTDIR: "not_found",
+	EISDIR: "is_directory",
+	EACCES: "permission_denied",
+	EPERM: "permission_denied",
+	ERR_FS_FILE_TOO_LARGE: "too_large",
+	ERR_CHILD_PROCESS_STDIO_MAXBUFFER: "too_large",
+	ABORT_ERR: "aborted",
+};
+
+/** Classifies a failed read by its errno code, or by the messages of the read tool and git. */
+export function classifyReadError(error: unknown): ReadErrorCode {
+	if (error instanceof ReadError) {
+		return error.code;
+	}
+	const code = (error as { code?: unknown } | null)?.code;
+	if (typeof code === "string" && code in ERRNO_CODES) {
+		return ERRNO_CODES[code];
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	if (message === "Operation aborted") {
+		return "aborted";
+	}
+	if (/does not exist in|exists on disk, but not in/.test(message)) {
+		return "not_found";
+	}
+	// Files too big for a single string.
+	if (error instanceof RangeError && /Invalid string length/.test(message)) {
+		return "too_large";
+	}
+	return "read_failed";
+}
+
+function toPosix(path: string): string {
+	return path.split(sep).join("/");
+}
+
+function stem(name: string): string {
+	return name.slice(0, name.length - extname(name).length) || name;
+}
+
+/**
+ * Looks up the context error blocks show: existing paths close to a missing one, and the entries
+ * of a directory. The workspace file list is built once, on the first lookup, from at most
+ * MAX_SCANNED_FILES files outside ignored directories; paths the policy denies are never shown.
+ */
+export function createErrorHints(cwd: string, policies: PolicySource[]) {
+	let workspaceFiles: Promise<string[]> | undefined;
+
+	async function allowed(path: string): Promise<boolean> {
+		return (await checkPathPolicy(policies, resolveInputPath(path, cwd), cwd)) === undefined;
+	}
+
+	/**
+	 * Up to three workspace files whose name is within a few edits of the missing path's name
+	 * (extensions aside), best first; files in a directory closer to the requested one win ties.
+	 */
+	async function similarPaths(path: string): Promise<string[]> {
+		workspaceFiles ??= listFiles(cwd, MAX_SCANNED_FILES).catch(() => []);
+		const absolutePath = resolveInputPath(path, cwd);
+		const target = toPosix(relative(cwd, absolutePath));
+		const name = basename(target).toLowerCase();
+		const dir = posix.dirname(target);
+		const maxDistance = Math.max(1, Math.floor(stem(name).length / 3));
+		const parent = dirname(absolutePath);
+		const siblings = (await matchFiles("*", parent, createGitignoreFilter(parent)).catch(() => [])).map((file) =>
+			posix.join(dir, file),
+		);
+
+		const ranked = [...new Set([...siblings, ...(await workspaceFiles)])]
+			.map((file) => {
+				const fileName = posix.basename(file).toLowerCase();
+				const nameDistance = Math.min(editDistance(name, fileName), editDistance(stem(name), stem(fileName)));
+				return { file, nameDistance };
+			})
+			.filter(({ file, nameDistance }) => nameDistance <= maxDistance && file !== target)
+			.map(({ file, nameDistance }) => ({
+				file,
+				nameDistance,
+				dirDistance: editDistance(dir, posix.dirname(file)),
+			}))
+			.sort(
+				(a, b) =>
+					a.nameDistance - b.nameDistance || a.dirDistance - b.dirDistance || (a.file < b.file ? -1 : 1),
+			);
+
+		const suggestions: string[] = [];
+		for (const { file } of ranked) {
+			if (suggestions.length === MAX_PATH_SUGGESTIONS) {
+				break;
+			}
+			if (await allowed(file)) {
+				suggestions.push(file);
+			}
+		}
+		return suggestions;
+	}
+
+	/** Sorted entry names of a directory, subdirectories marked with a trailing `/`. */
+	async function listDirectory(path: string): Promise<{ names: string[]; moreCount: number }> {
+		let entries: Dirent[];
+		try {
+			entries = await readdir(resolveInputPath(path, cwd), { withFileTypes: true });
+		} catch {
+			return { names: [], moreCount: 0 };
+		}
+		const names: string[] = [];
+		for (const entry of entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))) {
+			if (await allowed(posix.join(toPosix(path), entry.name))) {
+				names.push(entry.isDirectory() ? `${entry.name}/` : entry.name);
+			}
+		}
+		return { names: names.slice(0, MAX_LISTING_ENTRIES), moreCount: Math.max(0, names.length - MAX_LISTING_ENTRIES) };
+	}
+
+	return { similarPaths, listDirectory };
+}
+
+export type ErrorHints = ReturnType<typeof createErrorHints>;
@@ -0,0 +1,290 @@
+import { existsSync, readFileSync } from "node:fs";
+import { access, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, posix, relative, resolve } from "node:path";
+import { type GlobOptionsWithFileTypesFalse, glob, globIterate, hasMagic } from "glob";
+import ignore, { type Ignore } from "ignore";
+import { isBinaryFile } from "./binary.js";
+import type { ReadErrorCode } from "./errors.js";
+import { listChangedFiles } from "./git.js";
+
+// Directories never descended into during expansion, regardless of .gitignore contents.
+const ALWAYS_IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+/** Entries with `changed` expand to the files under their path that changed since `base`. */
+interface ExpandableRequest {
+	path: string;
+	changed?: { base: string };
+}
+
+export interface ExpandedEntry<T extends ExpandableRequest> {
+	request: T;
+	/** Glob pattern, directory or `changed since <base>` this entry was expanded from; undefined for literal file paths. */
+	source?: string;
+	/** Set when a glob, directory or changed entry matched no readable text files, or for deleted changed files. */
+	error?: string;
+	errorCode?: ReadErrorCode;
+}
+
+export interface ExpansionResult<T extends ExpandableRequest> {
+	entries: ExpandedEntry<T>[];
+	/** Whether any request entry was a glob or a directory. */
+	expanded: boolean;
+	/** Matches dropped because the expanded list reached `maxFiles`. */
+	droppedCount: number;
+}
+
+export function resolveInputPath(path: string, cwd: string): string {
+	if (path === "~") {
+		return homedir();
+	}
+	if (path.startsWith("~/")) {
+		return join(homedir(), path.slice(2));
+	}
+	return resolve(cwd, path);
+}
+
+async function isDirectory(absolutePath: string): Promise<boolean> {
+	try {
+		return (await stat(absolutePath)).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+async function pathExists(absolutePath: string): Promise<boolean> {
+	try {
+		await access(absolutePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Whether a path under a walk's base directory is ignored; directories are skipped with all they hold. */
+export type IgnoreFilter = (absolutePath: string, isDirectory: boolean) => boolean;
+
+/**
+ * Tracks `.gitignore` files from the enclosing git root (or `baseDir` when not in a repository)
+ * down to each path. Parsed ignore files are cached per directory. Checks are synchronous because
+ * glob consults them while walking, which lets it skip ignored directories instead of listing them.
+ */
+export function createGitignoreFilter(baseDir: string): IgnoreFilter {
+	const ignoreByDir = new Map<string, Ignore | undefined>();
+	const stopDir = findGitRoot(baseDir) ?? baseDir;
+
+	function loadIgnore(dir: string): Ignore | undefined {
+		if (!ignoreByDir.has(dir)) {
+			let rules: Ignore | undefined;
+			try {
+				rules = ignore().add(readFileSync(join(dir, ".gitignore"), "utf-8"));
+			} catch {
+				rules = undefined;
+			}
+			ignoreByDir.set(dir, rules);
+		}
+		return ignoreByDir.get(dir);
+	}
+
+	return (absolutePath, isDirectory) => {
+		const dirs: string[] = [];
+		for (let dir = dirname(absolutePath); ; dir = dirname(dir)) {
+			dirs.push(dir);
+			if (dir === stopDir || dirname(dir) === dir) {
+				break;
+			}
+		}
+
+		for (const dir of dirs.reverse()) {
+			const rules = loadIgnore(dir);
+			const rel = relative(dir, absolutePath).split("\\").join("/");
+			if (rules && rel && !rel.startsWith("..") && rules.ignores(isDirectory ? `${rel}/` : rel)) {
+				return true;
+			}
+		}
+		return false;
+	};
+}
+
+function findGitRoot(dir: string): string | undefined {
+	for (let current = dir; ; current = dirname(current)) {
+		if (existsSync(join(current, ".git"))) {
+			return current;
+		}
+		if (dirname(current) === current) {
+			return undefined;
+		}
+	}
+}
+
+function globBase(pattern: string): string {
+	const segments: string[] = [];
+	for (const segment of pattern.split("/")) {
+		if (hasMagic(segment, { magicalBraces: true })) {
+			break;
+		}
+		segments.push(segment);
+	}
+	return segments.join("/") || (isAbsolute(pattern) ? "/" : ".");
+}
+
+function walkOptions(cwd: string, isIgnored: IgnoreFilter | undefined): GlobOptionsWithFileTypesFalse {
+	return {
+		cwd,
+		nodir: true,
+		posix: true,
+		ignore: {
+			ignored: (path) => isIgnored?.(path.fullpath(), false) ?? false,
+			childrenIgnored: (path) => ALWAYS_IGNORED_DIRS.has(path.name) || (isIgnored?.(path.fullpath(), true) ?? false),
+		},
+	};
+}
+
+function sortPaths(paths: string[]): string[] {
+	return [...new Set(paths)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/** Sorted files matching a glob; `isIgnored` prunes the walk, and `.git` and `node_modules` are always skipped. */
+export async function matchFiles(pattern: string, cwd: string, isIgnored?: IgnoreFilter): Promise<string[]> {
+	return sortPaths(await glob(pattern, walkOptions(cwd, isIgnored)));
+}
+
+/**
+ * The first `limit` files under `cwd` in walk order (then sorted), skipping `.gitignore`d
+ * directories; the walk stops at the limit, so large trees cost no more than `limit` entries.
+ */
+export async function listFiles(cwd: string, limit: number): Promise<string[]> {
+	const controller = new AbortController();
+	const files: string[] = [];
+	try {
+		const walk = globIterate("**/*", { ...walkOptions(cwd, createGitignoreFilter(cwd)), signal: controller.signal });
+		for await (const file of walk) {
+			files.push(file);
+			if (files.length >= limit) {
+				controller.abort();
+				break;
+			}
+		}
+	} catch (error) {
+		if (!controller.signal.aborted) {
+			throw error;
+		}
+	}
+	return sortPaths(files);
+}
+
+/**
+ * Lists the entries a `changed` request expands to: one per changed file, keeping `changed` so the
+ * read can show just the changed hunks. Deleted files become error entries; git failures and empty
+ * diffs become a single error entry.
+ */
+async function expandChangedEntry<T extends ExpandableRequest>(
+	request: T,
+	base: string,
+	cwd: string,
+): Promise<ExpandedEntry<T>[]> {
+	const source = `changed since ${base}`;
+	let files: Awaited<ReturnType<typeof listChangedFiles>>;
+	try {
+		files = await listChangedFiles(base, request.path, cwd);
+	} catch (error) {
+		return [{ request, source, error: error instanceof Error ? error.message : String(error) }];
+	}
+
+	const entries: ExpandedEntry<T>[] = [];
+	for (const file of files) {
+		const fileRequest = { ...request, path: file.path };
+		if (file.deleted) {
+			entries.push({ request: fileRequest, source, error: `Deleted since ${base}`, errorCode: "not_found" });
+		} else if (!(await isBinaryFile(resolveInputPath(file.path, cwd)))) {
+			entries.push({ request: fileRequest, source });
+		}
+	}
+	return entries.length > 0 ? entries : [{ request, source, error: `No text files changed since ${base}` }];
+}
+
+/**
+ * Expands glob, directory and changed entries into concrete file entries, keeping request order
+ * between entries and sorted order within each expansion. Literal file paths pass through
+ * untouched so the underlying read still owns their error reporting. Ignored and binary matches
+ * are skipped; once `maxFiles` is reached, further matches are only counted, not checked.
+ */
+export async function expandFileEntries<T extends ExpandableRequest>(
+	requests: T[],
+	cwd: string,
+	maxFiles: number,
+): Promise<ExpansionResult<T>> {
+	const entries: ExpandedEntry<T>[] = [];
+	let expanded = false;
+	let droppedCount = 0;
+
+	for (const request of requests) {
+		if (request.changed) {
+			expanded = true;
+			for (const entry of await expandChangedEntry(request, request.changed.base, cwd)) {
+				if (entries.length < maxFiles) {
+					entries.push(entry);
+				} else {
+					droppedCount += 1;
+				}
+			}
+			continue;
+		}
+
+		const absolutePath = resolveInputPath(request.path, cwd);
+		// Existing paths win over glob syntax so names like `app/[id]/page.tsx` stay literal.
+		const isGlob = !(await pathExists(absolutePath)) && hasMagic(request.path, { magicalBraces: true });
+
+		if (!isGlob && !(await isDirectory(absolutePath))) {
+			if (entries.length < maxFiles) {
+				entries.push({ request });
+			} else {
+				droppedCount += 1;
+			}
+			continue;
+		}
+
+		expanded = true;
+		let matches: string[];
+		if (isGlob) {
+			// `~` is the only prefix glob itself does not understand.
+			const pattern = request.path.startsWith("~/") ? absolutePath.split("\\").join("/") : request.path;
+			matches = await matchFiles(pattern, cwd, createGitignoreFilter(resolve(cwd, globBase(pattern))));
+		} else {
+			const prefix = request.path.replace(/[\\/]+$/, "") || request.path;
+			const relativeMatches = await matchFiles("**/*", absolutePath, createGitignoreFilter(absolutePath));
+			matches = relativeMatches.map((match) => posix.join(prefix, match));
+		}
+
+		let matchedCount = 0;
+		for (const [i, match] of matches.entries()) {
+			if (entries.length >= maxFiles) {
+				// Checking the rest for binary content would open files only to drop them.
+				matchedCount += matches.length - i;
+				droppedCount += matches.length - i;
+				break;
+			}
+			if (await isBinaryFile(resolveInputPath(match, cwd))) {
+				continue;
+			}
+			matchedCount += 1;
+			entries.push({ request: { ...request, path: match }, source: request.path });
+		}
+
+		if (matchedCount === 0) {
+			const kind = isGlob ? "glob pattern" : "directory";
+			if (entries.length < maxFiles) {
+				entries.push({
+					request,
+					source: request.path,
+					error: `No readable text files matched ${kind}`,
+					errorCode: isGlob ? "not_found" : "is_directory",
+				});
+			} else {
+				droppedCount += 1;
+			}
+		}
+	}
+
+	return { entries, expanded, droppedCount };
+}
@@ -0,0 +1,39 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+
+// Hex digits of the content hash shown in block headers.
+const SHORT_HASH_LENGTH = 8;
+
+export interface FileStats {
+	totalLines: number; // counted like Pi's read tool: newlines plus one
+	size: number; // bytes
+	mtime: string; // ISO 8601, whole seconds
+	hash: string; // short SHA-256 of the content
+}
+
+/**
+ * Stats of a file on disk, or undefined when it cannot be read (e.g. it only exists in a stub).
+ * The content is streamed through the hash and line count, so large files are never held in memory.
+ */
+export async function readFileStats(absolutePath: string): Promise<FileStats | undefined> {
+	try {
+		const info = await stat(absolutePath);
+		const hash = createHash("sha256");
+		let totalLines = 1;
+		for await (const chunk of createReadStream(absolutePath) as AsyncIterable<Buffer>) {
+			hash.update(chunk);
+			for (let i = chunk.indexOf(10); i !== -1; i = chunk.indexOf(10, i + 1)) {
+				totalLines += 1;
+			}
+		}
+		return {
+			totalLines,
+			size: info.size,
+			mtime: info.mtime.toISOString().replace(/\.\d{3}Z$/, "Z"),
+			hash: hash.digest("hex").slice(0, SHORT_HASH_LENGTH),
+		};
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,317 @@
+import { formatSize, getLanguageFromPath } from "@mariozechner/pi-coding-agent";
+
+// Precedes the JSON continuation cursor in the notice that ends budget-limited output.
+export const CONTINUATION_HINT = "To read the rest, call read_many with continueFrom: ";
+
+// Opens the marker line that ends every partial block.
+export const PARTIAL_BLOCK_PREFIX = "[Partial block: ";
+
+// Follows the path in heredoc and markdown headers of outline blocks.
+export const OUTLINE_HEADER_SUFFIX = " (outline)";
+
+// First body line of every outline block.
+export const OUTLINE_NOTICE = "[Outline only: the file did not fit the output budget. Read a section with offset/limit.]";
+
+// Opens the line after the outline notice when the outline was built from only some of the file's lines.
+export const OUTLINE_COVERAGE_PREFIX = "[Outline of file lines ";
+
+export function formatOutlineCoverage(shown: string): string {
+	return `${OUTLINE_COVERAGE_PREFIX}${shown} only; structure outside them is not listed.]`;
+}
+
+export type OutputFormatName = "heredoc" | "xml" | "markdown" | "json";
+
+/** Declaration a symbol read resolved to; named with its file lines in the block header. */
+export interface BlockSymbol {
+	name: string;
+	startLine: number;
+	endLine: number;
+}
+
+/** File facts a block header can carry; fields the tool could not determine are left out. */
+export interface BlockMetadata {
+	shown?: string; // file lines the block shows, e.g. "1-40, 300-359"
+	totalLines?: number;
+	size?: number; // bytes
+	mtime?: string; // ISO 8601
+	language?: string;
+	hash?: string;
+}
+
+/** Header details of a block besides its path. */
+export interface BlockHeader {
+	ref?: string; // git revision the body was read at
+	symbol?: BlockSymbol;
+	metadata?: BlockMetadata;
+}
+
+// Starts the metadata part of heredoc and markdown headers, and separates its fields.
+export const METADATA_SEPARATOR = " · ";
+
+/**
+ * Header suffix of the heredoc and markdown formats, e.g.
+ * ` (at HEAD~1) (symbol foo, lines 3-9) · lines 3-9 of 120 · 2.1KB · modified 2026-01-02T03:04:05Z · typescript · sha 1a2b3c4d`.
+ */
+export function formatHeaderSuffix(header: BlockHeader | undefined): string {
+	let suffix = header?.ref !== undefined ? ` (at ${header.ref})` : "";
+	const symbol = header?.symbol;
+	if (symbol) {
+		suffix += ` (symbol ${symbol.name}, lines ${symbol.startLine}-${symbol.endLine})`;
+	}
+	const metadata = header?.metadata;
+	if (metadata) {
+		const { shown, totalLines } = metadata;
+		const lines = shown
+			? `lines ${shown}${totalLines !== undefined ? ` of ${totalLines}` : ""}`
+			: totalLines !== undefined
+				? `${totalLines} lines`
+				: undefined;
+		const fields = [
+			lines,
+			metadata.size !== undefined ? formatSize(metadata.size) : undefined,
+			metadata.mtime !== undefined ? `modified ${metadata.mtime}` : undefined,
+			metadata.language,
+			metadata.hash !== undefined ? `sha ${metadata.hash}` : undefined,
+		].filter((field) => field !== undefined);
+		for (const field of fields) {
+			suffix += `${METADATA_SEPARATOR}${field}`;
+		}
+	}
+	return suffix;
+}
+
+function formatXmlAttributes(header: BlockHeader | undefined): string {
+	const attributes: Array<[string, string | number | undefined]> = [
+		["ref", header?.ref],
+		["symbol", header?.symbol?.name],
+		["lines", header?.symbol ? `${header.symbol.startLine}-${header.symbol.endLine}` : undefined],
+		["shown", header?.metadata?.shown],
+		["total-lines", header?.metadata?.totalLines],
+		["size", header?.metadata?.size],
+		["modified", header?.metadata?.mtime],
+		["language", header?.metadata?.language],
+		["hash", header?.metadata?.hash],
+	];
+	return attributes
+		.filter(([, value]) => value !== undefined)
+		.map(([name, value]) => ` ${name}="${escapeXmlAttribute(String(value))}"`)
+		.join("");
+}
+
+function formatJsonBlock(path: string, body: string, header: BlockHeader | undefined): string {
+	const symbol = header?.symbol;
+	return JSON.stringify({
+		path,
+		...(header?.ref !== undefined ? { ref: header.ref } : {}),
+		...(symbol ? { symbol: symbol.name, lines: `${symbol.startLine}-${symbol.endLine}` } : {}),
+		...header?.metadata,
+		content: body,
+	});
+}
+
+/**
+ * How file blocks are framed in the combined output. Every format escapes bodies so that no file
+ * content can end its block early; packing measures the rendered text, wrappers included.
+ */
+export interface OutputFormat {
+	name: OutputFormatName;
+	formatBlock(path: string, body: string, index: number, header?: BlockHeader): string;
+	/** Frames the outline of a file that did not fit, so it cannot be mistaken for file content. */
+	formatOutline(path: string, body: string, index: number): string;
+	formatNotice(text: string): string;
+	/** Placed between sections. */
+	separator: string;
+	/** Placed around all sections. */
+	open: string;
+	close: string;
+	/** Structural lines a block adds around its body; the first guess when cutting partial sections. */
+	wrapperLines: number;
+	/** Output over the budget drops whole sections instead of being cut mid-line, so it still parses. */
+	cutsWholeSections: boolean;
+}
+
+const DELIMITER_WORDS = [
+	"PINE",
+	"MANGO",
+	"ORBIT",
+	"RAVEN",
+	"CEDAR",
+	"LOTUS",
+	"EMBER",
+	"NOVA",
+	"DUNE",
+	"KITE",
+	"TIDAL",
+	"QUARTZ",
+	"ACORN",
+	"BLAZE",
+	"FJORD",
+	"GLYPH",
+	"HARBOR",
+	"IVORY",
+	"JUNIPER",
+	"SIERRA",
+	"UMBRA",
+	"VIOLET",
+	"WILLOW",
+	"XENON",
+	"YARROW",
+	"ZEPHYR",
+] as const;
+
+export function createPathHash(path: string): string {
+	// Deterministic tiny hash (no Node crypto dependency)
+	let hash = 5381;
+	for (let i = 0; i < path.length; i++) {
+		hash = ((hash << 5) + hash + path.charCodeAt(i)) >>> 0;
+	}
+	return hash.toString(16).toUpperCase().padStart(6, "0").slice(0, 6);
+}
+
+function buildLineSet(content: string): Set<string> {
+	const lines = content.split("\n");
+	const set = new Set<string>();
+	for (const line of lines) {
+		set.add(line.replace(/\r$/, ""));
+	}
+	return set;
+}
+
+export function pickDelimiter(path: string, index: number, content: string): string {
+	const lineSet = buildLineSet(content);
+	// Words repeat every 26 files; the index keeps each delimiter unique within a call.
+	const word = DELIMITER_WORDS[(index - 1) % DELIMITER_WORDS.length];
+	const hash = createPathHash(path);
+	const base = `${word}_${index}_${hash}`;
+
+	if (!lineSet.has(base)) {
+		return base;
+	}
+
+	for (let attempt = 1; attempt <= 256; attempt++) {
+		const candidate = `${base}_${attempt}`;
+		if (!lineSet.has(candidate)) {
+			return candidate;
+		}
+	}
+
+	// Safety fallback: keep deriving deterministic candidates until one is guaranteed free.
+	const fallbackBase = `${base}_${content.length.toString(36).toUpperCase()}`;
+	if (!lineSet.has(fallbackBase)) {
+		return fallbackBase;
+	}
+
+	let suffix = 1;
+	while (true) {
+		const candidate = `${fallbackBase}_${suffix}`;
+		if (!lineSet.has(candidate)) {
+			return candidate;
+		}
+		suffix += 1;
+	}
+}
+
+export function formatContentBlock(path: string, body: string, index: number, header?: BlockHeader): string {
+	const delimiter = pickDelimiter(path, index, body);
+	return `@${path}${formatHeaderSuffix(header)}\n<<'${delimiter}'\n${body}\n${delimiter}`;
+}
+
+function formatOutlineBlock(path: string, body: string, index: number): string {
+	const delimiter = pickDelimiter(path, index, body);
+	return `@${path}${OUTLINE_HEADER_SUFFIX}\n<<'${delimiter}'\n${body}\n${delimiter}`;
+}
+
+function escapeXmlAttribute(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function pickXmlTag(content: string, name: string): string {
+	if (!content.includes(`</${name}>`)) {
+		return name;
+	}
+	let suffix = 1;
+	while (content.includes(`</${name}_${suffix}>`)) {
+		suffix += 1;
+	}
+	return `${name}_${suffix}`;
+}
+
+function formatXmlBlock(path: string, body: string, name = "file", header?: BlockHeader): string {
+	const tag = pickXmlTag(body, name);
+	return `<${tag} path="${escapeXmlAttribute(path)}"${formatXmlAttributes(header)}>\n${body}\n</${tag}>`;
+}
+
+function pickFence(content: string): string {
+	// A closing fence must be at least as long as the opening one, so outgrow any backtick run
+	// that could be read as a fence (up to three spaces of indentation, as in CommonMark).
+	let longest = 0;
+	for (const match of content.matchAll(/^ {0,3}(`+)/gm)) {
+		longest = Math.max(longest, match[1].length);
+	}
+	return "`".repeat(Math.max(3, longest + 1));
+}
+
+function formatMarkdownBlock(path: string, body: string, _index: number, header?: BlockHeader): string {
+	const fence = pickFence(body);
+	return `### ${path}${formatHeaderSuffix(header)}\n${fence}${getLanguageFromPath(path) ?? ""}\n${body}\n${fence}`;
+}
+
+function formatMarkdownOutline(path: string, body: string): string {
+	const fence = pickFence(body);
+	return `### ${path}${OUTLINE_HEADER_SUFFIX}\n${fence}\n${body}\n${fence}`;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormatName, OutputFormat> = {
+	heredoc: {
+		name: "heredoc",
+		formatBlock: formatContentBlock,
+		formatOutline: formatOutlineBlock,
+		formatNotice: (text) => text,
+		separator: "\n\n",
+		open: "",
+		close: "",
+		wrapperLines: 3,
+		cutsWholeSections: false,
+	},
+	xml: {
+		name: "xml",
+		formatBlock: (path, body, _index, header) => formatXmlBlock(path, body, "file", header),
+		formatOutline: (path, body) => formatXmlBlock(path, body, "outline"),
+		formatNotice: (text) => text,
+		separator: "\n\n",
+		open: "",
+		close: "",
+		wrapperLines: 2,
+		cutsWholeSections: false,
+	},
+	markdown: {
+		name: "markdown",
+		formatBlock: formatMarkdownBlock,
+		formatOutline: formatMarkdownOutline,
+		formatNotice: (text) => text,
+		separator: "\n\n",
+		open: "",
+		close: "",
+		wrapperLines: 3,
+		cutsWholeSections: false,
+	},
+	json: {
+		name: "json",
+		formatBlock: (path, body, _index, header) => formatJsonBlock(path, body, header),
+		formatOutline: (path, body) => JSON.stringify({ path, outline: body }),
+		formatNotice: (text) => JSON.stringify({ notice: text }),
+		separator: ",\n",
+		open: "[\n",
+		close: "\n]",
+		// JSON escapes newlines, so a block is always a single line.
+		wrapperLines: 0,
+		cutsWholeSections: true,
+	},
+};
+
+export function renderSections(format: OutputFormat, sections: string[]): string {
+	if (sections.length === 0) {
+		return format.open || format.close ? `${format.open.trim()}${format.close.trim()}` : "";
+	}
+	return `${format.open}${sections.join(format.separator)}${format.close}`;
+}
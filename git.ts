@@ -0,0 +1,117 @@
+import { execFile } from "node:child_process";
+import { posix, relative, sep } from "node:path";
+import type { ReadOperations } from "@mariozechner/pi-coding-agent";
+
+// Largest blob or diff read from git; larger output fails the read instead of exhausting memory.
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/** A file that differs from the merge base of a `changed` entry's base and HEAD. */
+export interface ChangedFile {
+	/** Path relative to the working directory, with forward slashes. */
+	path: string;
+	deleted: boolean;
+}
+
+/** File lines `offset` to `offset + limit - 1` replaced a hunk; `limit` is 0 for pure deletions after `offset`. */
+export interface ChangedLines {
+	offset: number;
+	limit: number;
+}
+
+function runGit(args: string[], cwd: string): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		execFile("git", args, { cwd, encoding: "buffer", maxBuffer: MAX_GIT_OUTPUT_BYTES }, (error, stdout, stderr) => {
+			if (error) {
+				const message = stderr.toString("utf-8").trim().replace(/^fatal: /, "");
+				reject(new Error(message || error.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+async function runGitText(args: string[], cwd: string): Promise<string> {
+	return (await runGit(args, cwd)).toString("utf-8");
+}
+
+/** Rejects revisions git would parse as an option, such as `--output=file`. */
+function checkRevision(revision: string): void {
+	if (revision.startsWith("-")) {
+		throw new Error(`Invalid git revision "${revision}": revisions cannot start with "-"`);
+	}
+}
+
+function splitNul(output: string): string[] {
+	return output.split("\0").filter(Boolean);
+}
+
+/** The commit HEAD branched off `base` at, so changes on `base` since then do not count. */
+export async function resolveMergeBase(base: string, cwd: string): Promise<string> {
+	checkRevision(base);
+	return (await runGitText(["merge-base", base, "HEAD"], cwd)).trim();
+}
+
+/**
+ * Tracked files under `scope` that changed since the merge base of `base` and HEAD, committed or
+ * not, plus untracked files that are not ignored. Sorted by path.
+ */
+export async function listChangedFiles(base: string, scope: string, cwd: string): Promise<ChangedFile[]> {
+	const mergeBase = await resolveMergeBase(base, cwd);
+	// `git diff` prints paths from the repository root; `--show-cdup` leads from `cwd` back up to it.
+	const cdup = (await runGitText(["rev-parse", "--show-cdup"], cwd)).trim();
+	const diff = splitNul(await runGitText(["diff", "--name-status", "-z", "--no-renames", mergeBase, "--", scope], cwd));
+	const untracked = splitNul(await runGitText(["ls-files", "-z", "--others", "--exclude-standard", "--", scope], cwd));
+
+	const files = new Map<string, ChangedFile>();
+	for (let i = 0; i + 1 < diff.length; i += 2) {
+		const path = posix.normalize(`${cdup}${diff[i + 1]}`);
+		files.set(path, { path, deleted: diff[i] === "D" });
+	}
+	for (const path of untracked) {
+		files.set(path, { path, deleted: false });
+	}
+	return [...files.values()].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Changed lines of a working tree file since the merge base of `base` and HEAD, in file order.
+ * Empty when git reports no line changes (e.g. untracked files).
+ */
+export async function diffChangedLines(base: string, path: string, cwd: string): Promise<ChangedLines[]> {
+	const mergeBase = await resolveMergeBase(base, cwd);
+	const diff = await runGitText(["diff", "-U0", "--no-color", "--no-ext-diff", mergeBase, "--", path], cwd);
+	const hunks: ChangedLines[] = [];
+	for (const match of diff.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)) {
+		hunks.push({ offset: Number(match[1]), limit: match[2] === undefined ? 1 : Number(match[2]) });
+	}
+	return hunks;
+}
+
+/**
+ * File operations for Pi's read tool that read files as of git revision `ref` instead of from
+ * disk. Each blob is fetched once; image detection is off, so every file reads as text.
+ */
+export function createGitReadOperations(ref: string, cwd: string): ReadOperations {
+	const blobs = new Map<string, Promise<Buffer>>();
+	const showBlob = async (path: string): Promise<Buffer> => {
+		checkRevision(ref);
+		// `./` and `../` make git resolve the path from `cwd` instead of the repository root.
+		return runGit(["show", `${ref}:${path.startsWith("../") ? path : `./${path}`}`], cwd);
+	};
+	const readBlob = (absolutePath: string): Promise<Buffer> => {
+		let pending = blobs.get(absolutePath);
+		if (!pending) {
+			pending = showBlob(relative(cwd, absolutePath).split(sep).join("/"));
+			blobs.set(absolutePath, pending);
+		}
+		return pending;
+	};
+	return {
+		readFile: readBlob,
+		access: async (absolutePath) => {
+			await readBlob(absolutePath);
+		},
+		detectImageMimeType: async () => undefined,
+	};
+}
@@ -1 +1,3 @@
-export { default } from "./read-many.js";
+export { default, createReadManyExtension, createReadManyTool, type ReadManyOptions } from "./read-many.js";
+export { parseReadManyOutput, type ReadManyRecord } from "./parse.js";
+export type { ReadManyPolicy } from "./policy.js";
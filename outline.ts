@@ -0,0 +1,84 @@
+import { basename, extname } from "node:path";
+
+export interface OutlineEntry {
+	/** 0-based line of the body the entry was found on. */
+	bodyLine: number;
+	text: string;
+}
+
+// Longest entry text kept; signatures past this are cut with an ellipsis.
+const MAX_ENTRY_LENGTH = 120;
+
+const SCRIPT_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+const CONFIG_EXTENSIONS = new Set([".yaml", ".yml", ".toml", ".ini", ".cfg", ".conf", ".properties", ".env"]);
+
+const EXPORT_DECLARATION =
+	/^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|namespace)\b/;
+const EXPORT_DEFAULT = /^export\s+default\b/;
+const MARKDOWN_HEADING = /^#{1,6}\s+\S/;
+const JSON_KEY = /^(\s*)"(?:[^"\\]|\\.)*"\s*:/;
+// YAML, TOML, INI and .env keys or sections starting in the first column.
+const TOP_LEVEL_KEY = /^(?:\[[^\]]+\]|[A-Za-z_][\w.-]*\s*[:=])/;
+
+export function isScriptPath(path: string): boolean {
+	return SCRIPT_EXTENSIONS.has(extname(path).toLowerCase());
+}
+
+function shorten(line: string): string {
+	const text = line.trim().replace(/\s*\{$/, "");
+	return text.length > MAX_ENTRY_LENGTH ? `${text.slice(0, MAX_ENTRY_LENGTH - 1)}…` : text;
+}
+
+function collect(lines: string[], matches: (line: string) => boolean): OutlineEntry[] {
+	const entries: OutlineEntry[] = [];
+	lines.forEach((line, bodyLine) => {
+		if (matches(line)) {
+			entries.push({ bodyLine, text: shorten(line) });
+		}
+	});
+	return entries;
+}
+
+function collectHeadings(lines: string[]): OutlineEntry[] {
+	let fence: string | undefined;
+	return collect(lines, (line) => {
+		const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+		if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+			fence = fence ? undefined : marker;
+			return false;
+		}
+		return !fence && MARKDOWN_HEADING.test(line);
+	});
+}
+
+function collectJsonKeys(lines: string[]): OutlineEntry[] {
+	let topIndent = Infinity;
+	for (const line of lines) {
+		const indent = line.match(JSON_KEY)?.[1].length;
+		if (indent !== undefined && indent < topIndent) {
+			topIndent = indent;
+		}
+	}
+	return collect(lines, (line) => line.match(JSON_KEY)?.[1].length === topIndent);
+}
+
+/**
+ * Lists the structure of a file body: exported declarations for TS/JS, top-level keys for JSON and
+ * config files, and Markdown headings for other text. Empty when nothing is recognized.
+ */
+export function extractOutline(path: string, body: string): OutlineEntry[] {
+	const lines = body.split("\n");
+	const extension = extname(path).toLowerCase();
+
+	if (isScriptPath(path)) {
+		return collect(lines, (line) => EXPORT_DECLARATION.test(line) || EXPORT_DEFAULT.test(line));
+	}
+	if (extension === ".json") {
+		return collectJsonKeys(lines);
+	}
+
+	if (CONFIG_EXTENSIONS.has(extension) || basename(path).startsWith(".env")) {
+		return collect(lines, (line) => TOP_LEVEL_KEY.test(line));
+	}
+	return collectHeadings(lines);
+}
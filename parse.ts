@@ -0,0 +1,134 @@
+import {
+	type BlockSymbol,
+	CONTINUATION_HINT,
+	METADATA_SEPARATOR,
+	OUTLINE_COVERAGE_PREFIX,
+	OUTLINE_HEADER_SUFFIX,
+	OUTLINE_NOTICE,
+	PARTIAL_BLOCK_PREFIX,
+} from "./formats.js";
+
+export interface ReadManyRecord {
+	path: string;
+	body: string;
+	/** True when the block shows only part of the requested content. */
+	partial: boolean;
+	/** Set on outline blocks, which list a file's structure instead of its content. */
+	outline?: true;
+	/** Set on symbol reads: the declaration and the file lines it resolved to. */
+	symbol?: BlockSymbol;
+	/** Set on reads at a git revision. */
+	ref?: string;
+	/** Set on blocks read with `metadata`: the header's metadata fields, e.g. `lines 1-40 of 40 · 1.2KB · …`. */
+	metadata?: string;
+}
+
+// Matches `pickDelimiter` output: WORD_N_HASH plus any `_N` collision suffixes.
+const OPENING_DELIMITER = /^<<'([A-Z]+[0-9]*_[0-9]+_[0-9A-F]{6}(?:_[0-9A-Z]+)*)'$/;
+
+// Matches the symbol part of `formatHeaderSuffix` output, once any metadata is split off.
+const SYMBOL_HEADER_SUFFIX = / \(symbol ([A-Za-z_$][\w$]*), lines ([0-9]+)-([0-9]+)\)$/;
+// Matches the git revision part of `formatHeaderSuffix` output, once the symbol is split off.
+const REF_HEADER_SUFFIX = / \(at ([^()\s]+)\)$/;
+
+function isContinuationNotice(line: string): boolean {
+	const start = line.indexOf(CONTINUATION_HINT);
+	if (!line.startsWith("[") || start === -1 || !line.endsWith("]")) {
+		return false;
+	}
+	try {
+		JSON.parse(line.slice(start + CONTINUATION_HINT.length, -1));
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** The body without its trailing partial-block marker, or undefined when it does not end in one. */
+function stripPartialMarker(body: string): string | undefined {
+	const lastBreak = body.lastIndexOf("\n");
+	const lastLine = body.slice(lastBreak + 1);
+	if (!lastLine.startsWith(PARTIAL_BLOCK_PREFIX) || !lastLine.endsWith("]")) {
+		return undefined;
+	}
+	return body.slice(0, Math.max(0, lastBreak));
+}
+
+/**
+ * Splits combined heredoc-format `read_many` output back into per-file records. A block is
+ * partial when it ends in its own partial-block marker and the output carries a continuation
+ * notice (the marker is then dropped from the body), or when the output was cut before its
+ * closing delimiter. The same file requested twice can come back as one full and one partial block. Outline blocks
+ * come back as partial records with `outline` set and only their entries as the body; symbol
+ * reads carry the declaration from their header in `symbol`, reads at a git revision carry it in
+ * `ref`, and metadata headers their fields in `metadata`. Text outside blocks is ignored.
+ */
+export function parseReadManyOutput(text: string): ReadManyRecord[] {
+	const lines = text.split("\n");
+	const records: ReadManyRecord[] = [];
+	let continued = false;
+
+	let i = 0;
+	while (i < lines.length) {
+		const header = lines[i];
+		const opening = lines[i + 1]?.match(OPENING_DELIMITER);
+		if (!header.startsWith("@") || !opening) {
+			continued ||= isContinuationNotice(header);
+			i += 1;
+			continue;
+		}
+
+		const delimiter = opening[1];
+		const bodyStart = i + 2;
+		let closing = bodyStart;
+		while (closing < lines.length && lines[closing] !== delimiter) {
+			closing += 1;
+		}
+
+		if (header.endsWith(OUTLINE_HEADER_SUFFIX) && lines[bodyStart] === OUTLINE_NOTICE) {
+			// Outlines built from part of a file name the lines they cover before their entries.
+			const covered = lines[bodyStart + 1]?.startsWith(OUTLINE_COVERAGE_PREFIX) ?? false;
+			const entriesStart = bodyStart + (covered ? 2 : 1);
+			records.push({
+				path: header.slice(1, -OUTLINE_HEADER_SUFFIX.length),
+				body: lines.slice(entriesStart, Math.max(entriesStart, closing)).join("\n"),
+				partial: true,
+				outline: true,
+			});
+		} else {
+			const record: ReadManyRecord = {
+				path: header.slice(1),
+				body: lines.slice(bodyStart, closing).join("\n"),
+				partial: closing === lines.length,
+			};
+			const metadataStart = header.indexOf(METADATA_SEPARATOR);
+			if (metadataStart !== -1) {
+				record.path = header.slice(1, metadataStart);
+				record.metadata = header.slice(metadataStart + METADATA_SEPARATOR.length);
+			}
+			const symbol = record.path.match(SYMBOL_HEADER_SUFFIX);
+			if (symbol?.index !== undefined) {
+				record.path = record.path.slice(0, symbol.index);
+				record.symbol = { name: symbol[1], startLine: Number(symbol[2]), endLine: Number(symbol[3]) };
+			}
+			const ref = record.path.match(REF_HEADER_SUFFIX);
+			if (ref?.index !== undefined) {
+				record.path = record.path.slice(0, ref.index);
+				record.ref = ref[1];
+			}
+			records.push(record);
+		}
+		i = closing + 1;
+	}
+
+	if (continued) {
+		for (const record of records) {
+			const body = record.partial || record.outline ? undefined : stripPartialMarker(record.body);
+			if (body !== undefined) {
+				record.partial = true;
+				record.body = body;
+			}
+		}
+	}
+	return records;
+}
@@ -0,0 +1,165 @@
+import { readFile, realpath } from "node:fs/promises";
+import { homedir } from "node:os";
+import { isAbsolute, join, relative, sep } from "node:path";
+import { minimatch } from "minimatch";
+
+// Project settings file, relative to the working directory, and the key holding the policy.
+const PROJECT_SETTINGS_PATH = join(".pi", "settings.json");
+const PROJECT_SETTINGS_KEY = "readMany";
+
+// Patterns without a slash match the file name at any depth, like .gitignore entries. Patterns are
+// also tested against each parent directory, so a directory pattern covers everything inside it.
+const GLOB_OPTIONS = { dot: true, matchBase: true };
+
+/** Which paths read_many may read, and whether bodies are scrubbed of likely secrets. */
+export interface ReadManyPolicy {
+	/** When set, only paths matching one of these globs are read. */
+	allow?: string[];
+	/** Paths matching any of these globs are never read; deny wins over allow. */
+	deny?: string[];
+	/** Refuse paths that resolve (symlinks included) outside the working directory. */
+	confineToWorkspace?: boolean;
+	/** Mask likely secrets in bodies before packing. */
+	redactSecrets?: boolean;
+}
+
+/** A policy and where it was configured, named in denial reasons. */
+export interface PolicySource {
+	policy: ReadManyPolicy;
+	source: string;
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function parsePolicy(value: unknown, source: string): ReadManyPolicy {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new Error(`Invalid read_many policy in ${source}: expected an object`);
+	}
+	const { allow, deny, confineToWorkspace, redactSecrets } = value as Record<string, unknown>;
+	if ((allow !== undefined && !isStringArray(allow)) || (deny !== undefined && !isStringArray(deny))) {
+		throw new Error(`Invalid read_many policy in ${source}: allow and deny must be arrays of globs`);
+	}
+	if (
+		(confineToWorkspace !== undefined && typeof confineToWorkspace !== "boolean") ||
+		(redactSecrets !== undefined && typeof redactSecrets !== "boolean")
+	) {
+		throw new Error(`Invalid read_many policy in ${source}: confineToWorkspace and redactSecrets must be booleans`);
+	}
+	return { allow, deny, confineToWorkspace, redactSecrets };
+}
+
+/**
+ * Reads the `readMany` policy from the project's `.pi/settings.json`. Undefined when the file or
+ * key is absent; a malformed file throws, so a broken policy never silently allows everything.
+ */
+export async function loadProjectPolicy(cwd: string): Promise<PolicySource | undefined> {
+	let text: string;
+	try {
+		text = await readFile(join(cwd, PROJECT_SETTINGS_PATH), "utf-8");
+	} catch {
+		return undefined;
+	}
+	let settings: unknown;
+	try {
+		settings = JSON.parse(text);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`Cannot parse ${PROJECT_SETTINGS_PATH}: ${message}`);
+	}
+	const value = (settings as Record<string, unknown> | null)?.[PROJECT_SETTINGS_KEY];
+	return value === undefined ? undefined : { policy: parsePolicy(value, PROJECT_SETTINGS_PATH), source: PROJECT_SETTINGS_PATH };
+}
+
+function toPosix(path: string): string {
+	return path.split(sep).join("/");
+}
+
+function isInside(root: string, path: string): boolean {
+	const rel = relative(root, path);
+	return !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+async function resolveReal(path: string): Promise<string> {
+	try {
+		return await realpath(path);
+	} catch {
+		return path;
+	}
+}
+
+/** A path as patterns see it: absolute, and workspace-relative when inside the workspace. */
+interface PathForm {
+	absolute: string;
+	relative?: string;
+}
+
+function pathForm(absolutePath: string, cwd: string): PathForm {
+	const inside = isInside(cwd, absolutePath) && absolutePath !== cwd;
+	return { absolute: toPosix(absolutePath), relative: inside ? toPosix(relative(cwd, absolutePath)) : undefined };
+}
+
+/** Parent directories of a slash-separated path, outermost first: `a/b/c` gives `a` and `a/b`. */
+function parentDirectories(path: string): string[] {
+	const parts = path.split("/");
+	return parts
+		.slice(1)
+		.map((_, i) => parts.slice(0, i + 1).join("/"))
+		.filter((directory) => directory !== "");
+}
+
+/**
+ * Whether a pattern matches the path or one of its parent directories. Relative patterns see the
+ * directories inside the workspace and absolute ones (including `~/`) the directories from the
+ * root, so a name like `secrets` never matches a directory above the workspace.
+ */
+function matchesPath(pattern: string, form: PathForm): boolean {
+	const expanded = pattern.startsWith("~/") ? toPosix(join(homedir(), pattern.slice(2))) : pattern;
+	const base = expanded.startsWith("/") ? form.absolute : form.relative;
+	const candidates = [form.absolute, ...(form.relative === undefined ? [] : [form.relative])];
+	candidates.push(...(base === undefined ? [] : parentDirectories(base)));
+	return candidates.some((candidate) => minimatch(candidate, expanded, GLOB_OPTIONS));
+}
+
+function findMatch(patterns: string[], forms: PathForm[]): string | undefined {
+	return patterns.find((pattern) => forms.some((form) => matchesPath(pattern, form)));
+}
+
+/**
+ * Checks an absolute path against every policy. Both the path as given and its real path (after
+ * symlinks) must pass, so a link cannot smuggle a denied file in. Returns the denial reason, or
+ * undefined when every policy allows the path.
+ */
+export async function checkPathPolicy(
+	policies: PolicySource[],
+	absolutePath: string,
+	cwd: string,
+): Promise<string | undefined> {
+	if (policies.length === 0) {
+		return undefined;
+	}
+	const realPath = await resolveReal(absolutePath);
+	const realCwd = await resolveReal(cwd);
+	const forms = [pathForm(absolutePath, cwd), pathForm(realPath, realCwd)];
+
+	for (const { policy, source } of policies) {
+		const denied = `Denied by read_many policy (${source})`;
+		if (policy.confineToWorkspace && !(isInside(cwd, absolutePath) && isInside(realCwd, realPath))) {
+			return `${denied}: outside the workspace root ${cwd}`;
+		}
+		const deniedBy = findMatch(policy.deny ?? [], forms);
+		if (deniedBy !== undefined) {
+			return `${denied}: matches deny pattern "${deniedBy}"`;
+		}
+		if (policy.allow) {
+			const allowed =
+				findMatch(policy.allow, [pathForm(absolutePath, cwd)]) !== undefined &&
+				findMatch(policy.allow, [pathForm(realPath, realCwd)]) !== undefined;
+			if (!allowed) {
+				return `${denied}: matches no allow pattern`;
+			}
+		}
+	}
+	return undefined;
+}
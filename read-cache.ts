@@ -0,0 +1,59 @@
+import { createHash } from "node:crypto";
+import { stat } from "node:fs/promises";
+import type { FileRequest } from "./read-many.js";
+
+/** A read the session already received in full, with the file state it was read in. */
+export interface CachedRead {
+	hash: string;
+	mtimeMs: number;
+	turn: number;
+	tool: "read" | "read_many";
+}
+
+/**
+ * Reads the current session already holds, keyed by `readCacheKey`. `turn` counts the session's
+ * turns so far and labels new entries.
+ */
+export interface ReadCache {
+	turn: number;
+	entries: Map<string, CachedRead>;
+}
+
+/** Request fields that pick which lines of a file a read shows. */
+export type ReadSelector = Pick<
+	FileRequest,
+	"offset" | "limit" | "ranges" | "pattern" | "context" | "symbol" | "lineNumbers" | "ref" | "changed"
+>;
+
+export function createReadCache(): ReadCache {
+	return { turn: 0, entries: new Map() };
+}
+
+export function readCacheKey(absolutePath: string, selector: ReadSelector): string {
+	const { offset, limit, ranges, pattern, context, symbol, lineNumbers, ref, changed } = selector;
+	const selection = { offset, limit, ranges, pattern, context, symbol, lineNumbers, ref, changed };
+	return `${absolutePath}\n${JSON.stringify(selection)}`;
+}
+
+export function hashContent(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
+
+/** Modification time of a file, or undefined when it cannot be stat'ed (nothing is cached then). */
+export async function readMtime(absolutePath: string): Promise<number | undefined> {
+	try {
+		return (await stat(absolutePath)).mtimeMs;
+	} catch {
+		return undefined;
+	}
+}
+
+/** The cached read of `key`, when the file is unmodified since and the content hashes the same. */
+export function findUnchanged(cache: ReadCache, key: string, hash: string, mtimeMs: number): CachedRead | undefined {
+	const cached = cache.entries.get(key);
+	return cached && cached.mtimeMs === mtimeMs && cached.hash === hash ? cached : undefined;
+}
+
+export function formatUnchangedNotice(cached: CachedRead): string {
+	return `[unchanged since previous ${cached.tool} at turn ${cached.turn}]`;
+}
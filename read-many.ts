@@ -1,6 +1,8 @@
 import { Type, type Static } from "@sinclair/typebox";
 import type {
+	AgentToolUpdateCallback,
 	ExtensionAPI,
+	ReadOperations,
 	ReadToolDetails,
 	ReadToolInput,
 	ToolDefinition,
@@ -11,35 +13,290 @@ import {
 	DEFAULT_MAX_BYTES,
 	DEFAULT_MAX_LINES,
 	formatSize,
+	getLanguageFromPath,
 	truncateHead,
+	truncateTail,
 } from "@mariozechner/pi-coding-agent";
+import { type BinaryFile, detectBinary, detectBinaryFile, formatBinaryBody } from "./binary.js";
+import { classifyReadError, createErrorHints, type ErrorHints, ReadError, type ReadErrorCode } from "./errors.js";
+import { type ExpandedEntry, expandFileEntries, resolveInputPath } from "./expand.js";
+import { type FileStats, readFileStats } from "./file-stats.js";
+import {
+	type BlockHeader,
+	type BlockSymbol,
+	CONTINUATION_HINT,
+	createPathHash,
+	formatContentBlock,
+	formatOutlineCoverage,
+	OUTLINE_NOTICE,
+	OUTPUT_FORMATS,
+	type OutputFormat,
+	type OutputFormatName,
+	PARTIAL_BLOCK_PREFIX,
+	pickDelimiter,
+	renderSections,
+} from "./formats.js";
+import { createGitReadOperations, diffChangedLines } from "./git.js";
+import { extractOutline, isScriptPath } from "./outline.js";
+import { checkPathPolicy, loadProjectPolicy, type PolicySource, type ReadManyPolicy } from "./policy.js";
+import {
+	createReadCache,
+	findUnchanged,
+	formatUnchangedNotice,
+	hashContent,
+	type ReadCache,
+	readCacheKey,
+	readMtime,
+} from "./read-cache.js";
+import { redactSecrets } from "./redact.js";
+import { captureLoads, createWindowedReadOperations } from "./read-window.js";
+import { renderReadManyCall, renderReadManyResult } from "./render.js";
+import { resolveSymbol, suggestSymbols } from "./symbols.js";
 
-const ReadManySchema = Type.Object({
-	files: Type.Array(
-		Type.Object({
-			path: Type.String({ description: "Path to the file to read (relative or absolute)" }),
-			offset: Type.Optional(Type.Number({ description: "Line number to start reading from (1-indexed)" })),
-			limit: Type.Optional(Type.Number({ description: "Maximum number of lines to read" })),
-		}),
-		{
+// Entries per call, after glob/directory expansion. `maxFiles` is configurable up to the hard limit.
+const DEFAULT_MAX_FILES = 100;
+const HARD_MAX_FILES = 500;
+
+const DEFAULT_CONTEXT_LINES = 2;
+
+// Pattern reads match longer lines on their first characters only, bounding the regex work per line.
+const MAX_PATTERN_LINE_LENGTH = 4096;
+// Unchanged lines shown around each changed hunk, as in `git diff`.
+const DEFAULT_HUNK_CONTEXT_LINES = 3;
+
+const LineRangeSchema = Type.Object({
+	offset: Type.Number({ description: "Line number to start reading from (1-indexed)" }),
+	limit: Type.Optional(Type.Number({ description: "Maximum number of lines to read (default: to end of file)" })),
+});
+
+const PartialModeSchema = Type.Union(
+	[Type.Literal("head"), Type.Literal("tail"), Type.Literal("head+tail")],
+	{
+		description:
+			"Which part of a file a partial block keeps when it does not fit: head (default), tail, or head+tail with the middle elided",
+	},
+);
+
+const PatternSchema = Type.String({
+	description:
+		"Regular expression; the block then shows only matching lines and their context, numbered, with ... between hunks",
+});
+
+const ContextSchema = Type.Number({
+	minimum: 0,
+	description: `Lines of context around each pattern match (default ${DEFAULT_CONTEXT_LINES})`,
+});
+
+const LineNumbersSchema = Type.Boolean({
+	description: "Prefix every body line with its 1-based file line number (`N: `), for line-based edits",
+});
+
+const FileRequestSchema = Type.Object({
+	path: Type.String({
+		description:
+			"Path to the file to read (relative or absolute). Globs (e.g. src/**/*.ts) and directories expand to matching text files",
+	}),
+	offset: Type.Optional(Type.Number({ description: "Line number to start reading from (1-indexed)" })),
+	limit: Type.Optional(Type.Number({ description: "Maximum number of lines to read" })),
+	ranges: Type.Optional(
+		Type.Array(LineRangeSchema, {
 			minItems: 1,
-			maxItems: 26,
-			description: "Files to read in the exact order listed (max 26)",
-		},
+			description:
+				"Several line ranges of this file in one block (e.g. imports and one function); overlapping or adjacent ranges are merged",
+		}),
+	),
+	priority: Type.Optional(
+		Type.Number({
+			minimum: 0,
+			description:
+				"How much a complete copy of this file matters when the budget is tight (default 1); setting it on any entry enables optimal packing",
+		}),
+	),
+	required: Type.Optional(
+		Type.Boolean({ description: "Never omit this file in favor of non-required files (enables optimal packing)" }),
+	),
+	partialMode: Type.Optional(PartialModeSchema),
+	pattern: Type.Optional(PatternSchema),
+	context: Type.Optional(ContextSchema),
+	lineNumbers: Type.Optional(LineNumbersSchema),
+	ref: Type.Optional(
+		Type.String({
+			description: "Git revision (HEAD~1, a branch, a SHA) to read the file at instead of the working tree",
+		}),
+	),
+	changed: Type.Optional(
+		Type.Object(
+			{
+				base: Type.String({ description: "Git revision to compare against, e.g. main" }),
+				mode: Type.Optional(
+					Type.Union([Type.Literal("hunks"), Type.Literal("full")], {
+						description: "hunks (default) shows the changed lines with context; full shows each whole file",
+					}),
+				),
+				context: Type.Optional(
+					Type.Number({
+						minimum: 0,
+						description: `Unchanged lines around each hunk (default ${DEFAULT_HUNK_CONTEXT_LINES})`,
+					}),
+				),
+			},
+			{
+				description:
+					"Expand this entry to the files under its path (use . for the whole repository) changed since the branch left base, committed or not",
+			},
+		),
+	),
+	symbol: Type.Optional(
+		Type.String({
+			description:
+				"Name of a TS/JS declaration (function, class, interface, type, const, ...) to read instead of offset/limit/ranges; resolves to the whole declaration including its JSDoc",
+		}),
+	),
+	force: Type.Optional(
+		Type.Boolean({ description: "Re-read even if this session already received the same content unchanged" }),
 	),
-	stopOnError: Type.Optional(Type.Boolean({ description: "Stop on first error (default false)" })),
 });
 
-type ReadManyInput = Static<typeof ReadManySchema>;
+function createReadManySchema(maxFiles: number) {
+	return Type.Object({
+		files: Type.Optional(
+			Type.Array(FileRequestSchema, {
+				maxItems: maxFiles,
+				description: `Files to read in the exact order listed (max ${maxFiles}, including glob/directory matches)`,
+			}),
+		),
+		continueFrom: Type.Optional(
+			Type.Object(
+				{ files: Type.Array(FileRequestSchema, { maxItems: maxFiles }) },
+				{ description: "Continuation from a previous read_many result; its files are read before `files`" },
+			),
+		),
+		stopOnError: Type.Optional(Type.Boolean({ description: "Stop on first error (default false)" })),
+		force: Type.Optional(
+			Type.Boolean({ description: "Re-read every file even if this session already received it unchanged" }),
+		),
+		metadata: Type.Optional(
+			Type.Boolean({
+				description:
+					"Add file metadata to every block header: lines shown of total, size, mtime, language and a short content hash",
+			}),
+		),
+		partialMode: Type.Optional(PartialModeSchema),
+		pattern: Type.Optional(PatternSchema),
+		context: Type.Optional(ContextSchema),
+		lineNumbers: Type.Optional(LineNumbersSchema),
+		strategy: Type.Optional(
+			Type.Union(
+				[
+					Type.Literal("auto"),
+					Type.Literal("request-order"),
+					Type.Literal("smallest-first"),
+					Type.Literal("optimal"),
+					Type.Literal("fair-share"),
+				],
+				{
+					description:
+						"Packing strategy when the budget is tight: auto (default), request-order, smallest-first, optimal (by priority) or fair-share (every file gets a proportional slice)",
+				},
+			),
+		),
+		format: Type.Optional(
+			Type.Union([Type.Literal("heredoc"), Type.Literal("xml"), Type.Literal("markdown"), Type.Literal("json")], {
+				description:
+					"Block framing: heredoc (default), xml (<file path=...> tags), markdown (fenced blocks) or json (array of {path, content})",
+			}),
+		),
+		maxBytes: Type.Optional(
+			Type.Number({ description: "Combined output byte budget (clamped to the configured ceiling)" }),
+		),
+		maxLines: Type.Optional(
+			Type.Number({ description: "Combined output line budget (clamped to the configured ceiling)" }),
+		),
+		maxImages: Type.Optional(
+			Type.Number({ minimum: 0, description: "Image files attached as images rather than summarized (0 disables)" }),
+		),
+		maxImageBytes: Type.Optional(
+			Type.Number({ minimum: 0, description: "Combined size of the attached images, in bytes" }),
+		),
+	});
+}
+
+export type LineRange = Static<typeof LineRangeSchema>;
+export type FileRequest = Static<typeof FileRequestSchema>;
+export type PartialMode = Static<typeof PartialModeSchema>;
+type ReadTool = ReturnType<typeof createReadTool>;
+export type ReadManyInput = Static<ReturnType<typeof createReadManySchema>>;
+
+type Inclusion = "full" | "partial" | "outline" | "omitted";
 
-interface ReadManyFileDetail {
+export interface ReadManyFileDetail {
 	path: string;
 	ok: boolean;
+	inclusion?: Inclusion; // how the packer rendered this file's block; "outline" files are otherwise omitted
+	includedBytes?: number; // size of the rendered block (0 when omitted)
+	includedLines?: number;
 	error?: string;
+	errorCode?: ReadErrorCode;
+	source?: string; // glob pattern or directory this path was expanded from
+	ranges?: LineRange[]; // merged ranges, for multi-range requests
+	matchCount?: number; // lines matching the entry's pattern, for pattern reads
+	symbolRange?: LineRange; // declaration lines a symbol read resolved to
+	unchangedSince?: number; // session turn of the identical earlier read the block points to instead
+	// File metadata, set when the call asks for `metadata`:
+	totalLines?: number;
+	shownRanges?: LineRange[]; // file lines the rendered block shows; absent for outlines and omitted files
+	size?: number; // bytes
+	mtime?: string; // ISO 8601
+	language?: string;
+	contentHash?: string; // short SHA-256 of the file content
+	redactionCount?: number; // secrets masked in the body, set when the policy redacts secrets
 	imageCount?: number;
+	attachedImageCount?: number; // images returned as image content after the text, within the image budget
+	binary?: boolean; // non-image binary file, shown as a type and hexdump summary instead of its bytes
 	truncation?: ReadToolDetails["truncation"];
 }
 
+export interface OutputBudget {
+	maxBytes: number;
+	maxLines: number;
+}
+
+export interface ImageBudget {
+	maxImages: number;
+	maxBytes: number; // decoded image bytes
+}
+
+export interface ReadManyOptions {
+	/** Budget used when a call sets no maxBytes/maxLines (default: Pi's read limits). */
+	defaultBudget?: Partial<OutputBudget>;
+	/** Image attachments per call when a call sets no maxImages/maxImageBytes (default 4 images / 5MB). */
+	imageBudget?: Partial<ImageBudget>;
+	/** Upper bound applied to both call-level and default budgets. */
+	budgetCeiling?: Partial<OutputBudget>;
+	/** Output format used when a call sets no `format` (default "heredoc"). */
+	format?: OutputFormatName;
+	/** Maximum number of underlying reads in flight at once (default 8). */
+	concurrency?: number;
+	/** Maximum entries per call, counting glob/directory matches (default 100, at most 500). */
+	maxFiles?: number;
+	/** Packing strategy used when a call sets no `strategy` (default "auto"). */
+	strategy?: PackingStrategyOption;
+	/** Partial mode used when neither the entry nor the call sets `partialMode` (default "head"). */
+	partialMode?: PartialMode;
+	/**
+	 * Whether the extension answers reads the session already received unchanged (from read_many or
+	 * read) with a one-line notice instead of the content again (default true).
+	 */
+	dedupe?: boolean;
+	/** Whether blocks carry file metadata when a call sets no `metadata` (default false). */
+	metadata?: boolean;
+	/**
+	 * Paths read_many may read and whether bodies are scrubbed of likely secrets. Applies together
+	 * with the `readMany` policy in the project's `.pi/settings.json`: a path must pass both.
+	 */
+	policy?: ReadManyPolicy;
+}
+
 interface TextMetrics {
 	bytes: number;
 	lines: number;
@@ -48,25 +305,109 @@ interface TextMetrics {
 interface FileCandidate {
 	index: number;
 	path: string;
+	request: FileRequest;
 	ok: boolean;
 	fullText: string;
 	fullMetrics: TextMetrics;
 	body?: string; // present for successful text/image-summary reads; used for partial rendering
+	segments?: BodySegment[]; // text reads only
+	partialMode: PartialMode;
+	symbol?: BlockSymbol; // named in the header of every block rendered for this candidate
+	metadata?: FileMetadata; // likewise, for calls that ask for metadata
+	imageRead?: ImageRead; // image reads only
+	attachments?: Array<{ number: number; image: ImageAttachment }>; // images of imageRead within the image budget
+	windowed?: boolean; // read from the start of the file only; the read tool's notice undercounts its lines
 }
 
-interface PackedSection {
-	index: number;
+interface FileMetadata {
+	language?: string;
+	stats?: FileStats; // absent when the file cannot be read from disk
+}
+
+/**
+ * A requested line range and how many of its file lines open the matching stretch of a body.
+ * Consecutive segments are separated by exactly one elision marker line.
+ */
+interface BodySegment {
+	range: LineRange;
+	lines: number;
+}
+
+/** An image content item, as the underlying read tool returns it. */
+interface ImageAttachment {
+	type: "image";
+	data: string; // base64
+	mimeType: string;
+}
+
+/** The text and images of a read that returned image attachments. */
+interface ImageRead {
+	text: string;
+	images: ImageAttachment[];
+}
+
+interface ReadContentSummary {
+	body: string;
+	imageCount: number;
+	imageRead?: ImageRead;
+}
+
+/** The read tool for one entry, and the content it last loaded when it reads through read_many's operations. */
+interface LineSource {
+	readTool: ReadTool;
+	loaded?: () => Buffer | undefined;
+}
+
+interface FileReadResult extends ReadContentSummary {
+	truncation?: TruncationResult;
+	ranges?: LineRange[];
+	segments?: BodySegment[];
+	matchCount?: number;
+	symbol?: BlockSymbol;
+}
+
+/** Body lines `start` (inclusive) to `end` (exclusive), counted from 0. */
+interface BodySpan {
+	start: number;
+	end: number;
+}
+
+interface PartialBlock {
 	text: string;
 	metrics: TextMetrics;
+	shown: BodySpan[]; // body lines kept from the candidate body, ascending
+}
+
+interface PackedSection extends PartialBlock {
+	index: number;
 }
 
-type PackingStrategy = "request-order" | "smallest-first";
+/**
+ * Partial blocks already cut for a candidate, keyed by index and remaining budget. Shared by every
+ * plan of one call so large batches cut each partial section at most once per budget.
+ */
+type PartialCache = Map<string, PartialBlock | undefined>;
+
+/** Rendered outline blocks by candidate index, undefined for files without one; shared like PartialCache. */
+type OutlineCache = Map<number, { text: string; metrics: TextMetrics } | undefined>;
+
+interface PackingState {
+	usedBytes: number;
+	usedLines: number;
+	sectionCount: number;
+	separator: TextMetrics;
+}
+
+export type PackingStrategy = "request-order" | "smallest-first" | "optimal" | "fair-share";
+
+/** `auto` packs in request order, switching to smallest-first or optimal as described on the tool. */
+export type PackingStrategyOption = "auto" | PackingStrategy;
 
 interface PackingPlan {
 	strategy: PackingStrategy;
 	fullIncluded: Set<number>;
-	partialSection?: PackedSection;
-	omittedIndexes: number[];
+	partialSections: PackedSection[]; // ascending by index
+	omittedIndexes: number[]; // ascending
 	usedBytes: number;
 	usedLines: number;
 	sectionCount: number;
@@ -74,165 +415,326 @@ interface PackingPlan {
 	fullSuccessCount: number;
 }
 
-interface ReadManyDetails {
+export interface ReadManyProgress {
+	totalCount: number;
+	doneCount: number;
+	successCount: number;
+	errorCount: number;
+	bytes: number; // running totals of the rendered blocks read so far
+	lines: number;
+	lastPath: string;
+}
+
+export interface ReadManyProgressDetails {
+	progress: ReadManyProgress;
+}
+
+export interface ReadManyContinuation {
+	files: FileRequest[];
+}
+
+export interface ReadManyPartial {
+	path: string;
+	ranges?: LineRange[]; // file lines shown in the partial block; absent for non-text reads
+}
+
+export interface ReadManyDetails {
 	processedCount: number;
 	successCount: number;
 	errorCount: number;
 	files: ReadManyFileDetail[];
+	expansion?: {
+		expandedCount: number;
+		droppedCount: number;
+	};
 	packing: {
+		budget: OutputBudget;
+		format: OutputFormatName;
 		strategy: PackingStrategy;
 		switchedForCoverage: boolean;
 		fullIncludedCount: number;
 		fullIncludedSuccessCount: number;
-		partialIncludedPath?: string;
+		partialIncludedPath?: string; // first partial block, kept for single-partial consumers
+		partials: ReadManyPartial[];
 		omittedPaths: string[];
+		continuation?: ReadManyContinuation;
 	};
 	combinedTruncation?: TruncationResult;
 }
 
-const DELIMITER_WORDS = [
-	"PINE",
-	"MANGO",
-	"ORBIT",
-	"RAVEN",
-	"CEDAR",
-	"LOTUS",
-	"EMBER",
-	"NOVA",
-	"DUNE",
-	"KITE",
-	"TIDAL",
-	"QUARTZ",
-	"ACORN",
-	"BLAZE",
-	"FJORD",
-	"GLYPH",
-	"HARBOR",
-	"IVORY",
-	"JUNIPER",
-	"SIERRA",
-	"UMBRA",
-	"VIOLET",
-	"WILLOW",
-	"XENON",
-	"YARROW",
-	"ZEPHYR",
-] as const;
+const DEFAULT_BUDGET: OutputBudget = {
+	maxBytes: DEFAULT_MAX_BYTES,
+	maxLines: DEFAULT_MAX_LINES,
+};
+
+const DEFAULT_BUDGET_CEILING: OutputBudget = {
+	maxBytes: DEFAULT_MAX_BYTES * 4,
+	maxLines: DEFAULT_MAX_LINES * 4,
+};
+
+function clampLimit(value: number | undefined, fallback: number, ceiling: number): number {
+	const requested = value !== undefined && Number.isFinite(value) ? Math.floor(value) : fallback;
+	return Math.max(1, Math.min(requested, ceiling));
+}
+
+function resolveBudgetCeiling(options: Pick<ReadManyOptions, "budgetCeiling">): OutputBudget {
+	return {
+		maxBytes: clampLimit(options.budgetCeiling?.maxBytes, DEFAULT_BUDGET_CEILING.maxBytes, Infinity),
+		maxLines: clampLimit(options.budgetCeiling?.maxLines, DEFAULT_BUDGET_CEILING.maxLines, Infinity),
+	};
+}
+
+function resolveBudget(
+	requested: Partial<OutputBudget>,
+	options: Pick<ReadManyOptions, "defaultBudget" | "budgetCeiling">,
+): OutputBudget {
+	const ceiling = resolveBudgetCeiling(options);
+	const defaults: OutputBudget = {
+		maxBytes: clampLimit(options.defaultBudget?.maxBytes, DEFAULT_BUDGET.maxBytes, ceiling.maxBytes),
+		maxLines: clampLimit(options.defaultBudget?.maxLines, DEFAULT_BUDGET.maxLines, ceiling.maxLines),
+	};
+	return {
+		maxBytes: clampLimit(requested.maxBytes, defaults.maxBytes, ceiling.maxBytes),
+		maxLines: clampLimit(requested.maxLines, defaults.maxLines, ceiling.maxLines),
+	};
+}
+
+const DEFAULT_CONCURRENCY = 8;
+// Images attached per call, and their combined decoded size. Images past either limit are summarized.
+const DEFAULT_MAX_IMAGES = 4;
+const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const DEFAULT_PRIORITY = 1;
+
+// Re-plans allowed while the continuation notice outgrows the room reserved for it.
+const CONTINUATION_REPLANS = 4;
+
+// Cells per budget dimension in the optimal packer's table; larger budgets are scaled down to fit.
+const OPTIMAL_GRID_SIZE = 128;
+
+// Bytes loaded from the start of a large file until planning shows it needs the rest, in pages:
+// the first page (at most the page limit's bytes) plus room for the line it stops at.
+const READ_WINDOW_PAGES = 2;
+
+function countLines(text: string): number {
+	let lines = 1;
+	for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+		lines += 1;
+	}
+	return lines;
+}
 
 function measureText(text: string): TextMetrics {
 	return {
 		bytes: Buffer.byteLength(text, "utf-8"),
-		lines: text.split("\n").length,
+		lines: countLines(text),
 	};
 }
 
-function createPathHash(path: string): string {
-	// Deterministic tiny hash (no Node crypto dependency)
-	let hash = 5381;
-	for (let i = 0; i < path.length; i++) {
-		hash = ((hash << 5) + hash + path.charCodeAt(i)) >>> 0;
-	}
-	return hash.toString(16).toUpperCase().padStart(6, "0").slice(0, 6);
+/**
+ * What joining two sections with `separator` adds to their combined metrics. Joining two texts
+ * merges their touching lines, so a separator adds one line less than it has line breaks.
+ */
+function measureSeparator(separator: string): TextMetrics {
+	return {
+		bytes: Buffer.byteLength(separator, "utf-8"),
+		lines: countLines(separator) - 2,
+	};
 }
 
-function buildLineSet(content: string): Set<string> {
-	const lines = content.split("\n");
-	const set = new Set<string>();
-	for (const line of lines) {
-		set.add(line.replace(/\r$/, ""));
-	}
-	return set;
+/** What the format's `open`/`close` wrapper adds around the joined sections. */
+function measureFrame(format: OutputFormat): TextMetrics {
+	return {
+		bytes: Buffer.byteLength(format.open + format.close, "utf-8"),
+		lines: countLines(format.open) - 1 + countLines(format.close) - 1,
+	};
 }
 
-function pickDelimiter(path: string, index: number, content: string): string {
-	const lineSet = buildLineSet(content);
-	const word = DELIMITER_WORDS[index - 1] ?? `FILE${index}`;
-	const hash = createPathHash(path);
-	const base = `${word}_${index}_${hash}`;
+function canFitSection(state: PackingState, metrics: TextMetrics, budget: OutputBudget): boolean {
+	const sepBytes = state.sectionCount > 0 ? state.separator.bytes : 0;
+	const sepLines = state.sectionCount > 0 ? state.separator.lines : 0;
+	return (
+		state.usedBytes + sepBytes + metrics.bytes <= budget.maxBytes &&
+		state.usedLines + sepLines + metrics.lines <= budget.maxLines
+	);
+}
 
-	if (!lineSet.has(base)) {
-		return base;
-	}
+function addSection(state: PackingState, metrics: TextMetrics): void {
+	const sepBytes = state.sectionCount > 0 ? state.separator.bytes : 0;
+	const sepLines = state.sectionCount > 0 ? state.separator.lines : 0;
+	state.usedBytes += sepBytes + metrics.bytes;
+	state.usedLines += sepLines + metrics.lines;
+	state.sectionCount += 1;
+}
+
+/** Whether any partial block could fit; below this every candidate is skipped. */
+function canFitPartialSection(remainingLines: number, remainingBytes: number, format: OutputFormat): boolean {
+	return remainingLines - format.wrapperLines >= 2 && remainingBytes >= 32;
+}
 
-	for (let attempt = 1; attempt <= 256; attempt++) {
-		const candidate = `${base}_${attempt}`;
-		if (!lineSet.has(candidate)) {
-			return candidate;
+/**
+ * Maps body line spans to the file lines they show. Undefined for bodies without segments (image
+ * summaries), which do not map to file lines.
+ */
+function shownRanges(candidate: FileCandidate, shown: BodySpan[]): LineRange[] | undefined {
+	if (!candidate.segments) {
+		return undefined;
+	}
+	const ranges: LineRange[] = [];
+	let bodyLine = 0;
+	for (const { range, lines } of candidate.segments) {
+		for (const span of shown) {
+			const start = Math.max(span.start, bodyLine);
+			const end = Math.min(span.end, bodyLine + lines);
+			if (end > start) {
+				ranges.push({ offset: range.offset + start - bodyLine, limit: end - start });
+			}
 		}
+		bodyLine += lines + 1; // segment lines plus the elision marker that follows it
 	}
+	return ranges;
+}
+
+/** File lines a full block shows; undefined for bodies without segments. */
+function fullRanges(candidate: FileCandidate): LineRange[] | undefined {
+	return candidate.segments
+		?.filter((segment) => segment.lines > 0)
+		.map(({ range, lines }) => ({ offset: range.offset, limit: lines }));
+}
 
-	// Safety fallback: keep deriving deterministic candidates until one is guaranteed free.
-	const fallbackBase = `${base}_${content.length.toString(36).toUpperCase()}`;
-	if (!lineSet.has(fallbackBase)) {
-		return fallbackBase;
+function formatLineSpans(ranges: LineRange[]): string {
+	return ranges
+		.map(({ offset, limit = 1 }) => (limit === 1 ? `${offset}` : `${offset}-${offset + limit - 1}`))
+		.join(", ");
+}
+
+function formatPartialMarker(candidate: FileCandidate, shown: BodySpan[]): string {
+	const ranges = shownRanges(candidate, shown);
+	if (!ranges?.length) {
+		const lineCount = shown.reduce((total, span) => total + span.end - span.start, 0);
+		const first = shown.length === 1 && shown[0].start === 0 ? "first " : "";
+		return `${PARTIAL_BLOCK_PREFIX}${first}${lineCount} line(s) shown]`;
 	}
+	return `${PARTIAL_BLOCK_PREFIX}line(s) ${formatLineSpans(ranges)} shown]`;
+}
 
-	let suffix = 1;
-	while (true) {
-		const candidate = `${fallbackBase}_${suffix}`;
-		if (!lineSet.has(candidate)) {
-			return candidate;
-		}
-		suffix += 1;
+/** Header of a block showing `shown` of the candidate's file lines. */
+function blockHeader(
+	candidate: Pick<FileCandidate, "request" | "symbol" | "metadata">,
+	shown: LineRange[] | undefined,
+): BlockHeader | undefined {
+	const { ref } = candidate.request;
+	if (!candidate.metadata) {
+		return candidate.symbol || ref !== undefined ? { ref, symbol: candidate.symbol } : undefined;
 	}
+	const { language, stats } = candidate.metadata;
+	return {
+		ref,
+		symbol: candidate.symbol,
+		metadata: {
+			shown: shown?.length ? formatLineSpans(shown) : undefined,
+			totalLines: stats?.totalLines,
+			size: stats?.size,
+			mtime: stats?.mtime,
+			language,
+			hash: stats?.hash,
+		},
+	};
 }
 
-function formatContentBlock(path: string, body: string, index: number): string {
-	const delimiter = pickDelimiter(path, index, body);
-	return `@${path}\n<<'${delimiter}'\n${body}\n${delimiter}`;
+/** Lines of the requested ranges from file line `from` up to (not including) `to`; gaps between ranges do not count. */
+function requestedLinesBetween(segments: BodySegment[], from: number, to: number): number {
+	return segments.reduce((total, { range }) => {
+		const end = Math.min(to, range.limit === undefined ? Infinity : range.offset + range.limit);
+		return total + Math.max(0, end - Math.max(from, range.offset));
+	}, 0);
 }
 
-function canFitSection(
-	state: { usedBytes: number; usedLines: number; sectionCount: number },
-	metrics: TextMetrics,
-): boolean {
-	const sepBytes = state.sectionCount > 0 ? 2 : 0; // "\n\n"
-	const sepLines = state.sectionCount > 0 ? 1 : 0;
-	return (
-		state.usedBytes + sepBytes + metrics.bytes <= DEFAULT_MAX_BYTES &&
-		state.usedLines + sepLines + metrics.lines <= DEFAULT_MAX_LINES
-	);
+/**
+ * Marks the lines a tail or head+tail cut dropped between two shown spans (`before` is absent for
+ * tail cuts). Counts requested file lines where the body maps to them, so lines the read never
+ * returned count too, but lines between requested ranges do not.
+ */
+function formatElidedMarker(candidate: FileCandidate, before: BodySpan | undefined, after: BodySpan): string {
+	const [firstAfter] = shownRanges(candidate, [after]) ?? [];
+	const lastBefore = before ? shownRanges(candidate, [before])?.at(-1) : undefined;
+	let count = after.start - (before?.end ?? 0);
+	if (candidate.segments && firstAfter) {
+		const from = lastBefore ? lastBefore.offset + (lastBefore.limit ?? 0) : candidate.segments[0].range.offset;
+		count = requestedLinesBetween(candidate.segments, from, firstAfter.offset);
+	}
+	return `[... ${count} line(s) elided ...]`;
 }
 
-function addSection(
-	state: { usedBytes: number; usedLines: number; sectionCount: number },
-	metrics: TextMetrics,
-): void {
-	const sepBytes = state.sectionCount > 0 ? 2 : 0;
-	const sepLines = state.sectionCount > 0 ? 1 : 0;
-	state.usedBytes += sepBytes + metrics.bytes;
-	state.usedLines += sepLines + metrics.lines;
-	state.sectionCount += 1;
+/**
+ * Cuts a candidate body down to `maxLines`/`maxBytes` in its partial mode. `head+tail` splits the
+ * limits evenly and falls back to a plain head cut when both halves would overlap.
+ */
+function cutBody(
+	candidate: FileCandidate,
+	body: string,
+	maxLines: number,
+	maxBytes: number,
+): { text: string; shown: BodySpan[] } | undefined {
+	const totalLines = countLines(body);
+
+	if (candidate.partialMode === "head+tail" && maxLines >= 2) {
+		const head = truncateHead(body, { maxLines: Math.ceil(maxLines / 2), maxBytes: Math.ceil(maxBytes / 2) });
+		const tail = truncateTail(body, { maxLines: Math.floor(maxLines / 2), maxBytes: Math.floor(maxBytes / 2) });
+		if (head.content && head.outputLines + tail.outputLines < totalLines) {
+			const shown = [
+				{ start: 0, end: head.outputLines },
+				{ start: totalLines - tail.outputLines, end: totalLines },
+			];
+			const marker = formatElidedMarker(candidate, shown[0], shown[1]);
+			return { text: `${head.content}\n${marker}\n${tail.content}`, shown };
+		}
+	}
+
+	if (candidate.partialMode === "tail") {
+		const tail = truncateTail(body, { maxLines, maxBytes });
+		const start = totalLines - tail.outputLines;
+		const shown = [{ start, end: totalLines }];
+		const text = start > 0 ? `${formatElidedMarker(candidate, undefined, shown[0])}\n${tail.content}` : tail.content;
+		return { text, shown };
+	}
+
+	const head = truncateHead(body, { maxLines, maxBytes });
+	return head.content ? { text: head.content, shown: [{ start: 0, end: head.outputLines }] } : undefined;
 }
 
-function buildPartialSection(candidate: FileCandidate, remainingLines: number, remainingBytes: number): string | undefined {
+function buildPartialSection(
+	candidate: FileCandidate,
+	remainingLines: number,
+	remainingBytes: number,
+	format: OutputFormat,
+): PartialBlock | undefined {
 	if (!candidate.body) {
 		return undefined;
 	}
 
-	// Wrapper adds 3 structural lines around body in `formatContentBlock`.
-	let maxBodyLines = remainingLines - 3;
-	if (maxBodyLines < 1 || remainingBytes < 32) {
+	if (!canFitPartialSection(remainingLines, remainingBytes, format)) {
 		return undefined;
 	}
 
+	// Every partial block ends with a marker line; tail cuts also mark where lines were elided.
+	const markerLines = candidate.partialMode === "head" ? 1 : 2;
+	let maxBodyLines = Math.max(1, remainingLines - format.wrapperLines - markerLines);
 	let maxBodyBytes = Math.max(1, remainingBytes - 96); // reserve room for wrapper + delimiter
 
 	for (let attempt = 0; attempt < 16; attempt++) {
-		const trunc = truncateHead(candidate.body, {
-			maxLines: maxBodyLines,
-			maxBytes: maxBodyBytes,
-		});
-
-		if (!trunc.content) {
+		const cut = cutBody(candidate, candidate.body, maxBodyLines, maxBodyBytes);
+		if (!cut) {
 			return undefined;
 		}
 
-		const partialText = formatContentBlock(candidate.path, trunc.content, candidate.index + 1);
+		const body = `${cut.text}\n${formatPartialMarker(candidate, cut.shown)}`;
+		const header = blockHeader(candidate, shownRanges(candidate, cut.shown));
+		const partialText = format.formatBlock(candidate.path, body, candidate.index + 1, header);
 		const metrics = measureText(partialText);
 
 		if (metrics.lines <= remainingLines && metrics.bytes <= remainingBytes) {
-			return partialText;
+			return { text: partialText, metrics, shown: cut.shown };
 		}
 
 		if (metrics.lines > remainingLines && maxBodyLines > 1) {
@@ -246,14 +748,36 @@ function buildPartialSection(candidate: FileCandidate, remainingLines: number, r
 	return undefined;
 }
 
-function buildPlan(strategy: PackingStrategy, order: number[], candidates: FileCandidate[]): PackingPlan {
-	const state = { usedBytes: 0, usedLines: 0, sectionCount: 0 };
+function collectOmitted(
+	candidates: FileCandidate[],
+	fullIncluded: Set<number>,
+	partialSections: PackedSection[],
+): number[] {
+	const partial = new Set(partialSections.map((section) => section.index));
+	return candidates.map((_, i) => i).filter((i) => !fullIncluded.has(i) && !partial.has(i));
+}
+
+function buildPlan(
+	strategy: PackingStrategy,
+	order: number[],
+	candidates: FileCandidate[],
+	budget: OutputBudget,
+	format: OutputFormat,
+	partialCache: PartialCache = new Map(),
+	outlineCache: OutlineCache = new Map(),
+): PackingPlan {
+	const state: PackingState = {
+		usedBytes: 0,
+		usedLines: 0,
+		sectionCount: 0,
+		separator: measureSeparator(format.separator),
+	};
 	const fullIncluded = new Set<number>();
 	let fullSuccessCount = 0;
 
 	for (const index of order) {
 		const candidate = candidates[index];
-		if (canFitSection(state, candidate.fullMetrics)) {
+		if (canFitSection(state, candidate.fullMetrics, budget)) {
 			addSection(state, candidate.fullMetrics);
 			fullIncluded.add(index);
 			if (candidate.ok) {
@@ -265,45 +789,58 @@ function buildPlan(strategy: PackingStrategy, order: number[], candidates: FileC
 		}
 	}
 
-	let partialSection: PackedSection | undefined;
-	for (let index = 0; index < candidates.length; index++) {
+	// Optimal plans cut the most important leftover file; the others cut the first one in request order.
+	const partialOrder = candidates.map((_, i) => i);
+	if (strategy === "optimal") {
+		const values = packingValues(candidates);
+		partialOrder.sort((a, b) => values[b] - values[a] || a - b);
+	}
+
+	const partialSections: PackedSection[] = [];
+	for (const index of partialOrder) {
 		if (fullIncluded.has(index)) {
 			continue;
 		}
 
-		const sepBytes = state.sectionCount > 0 ? 2 : 0;
-		const sepLines = state.sectionCount > 0 ? 1 : 0;
-		const remainingBytes = DEFAULT_MAX_BYTES - state.usedBytes - sepBytes;
-		const remainingLines = DEFAULT_MAX_LINES - state.usedLines - sepLines;
+		// Outlines of the other files left out are sized first, so the partial block cannot crowd them out.
+		const room: PackingState = { ...state };
+		for (const other of candidates.keys()) {
+			if (other === index || fullIncluded.has(other)) {
+				continue;
+			}
+			const outline = outlineFor(candidates, other, format, outlineCache);
+			if (outline && canFitSection(room, outline.metrics, budget)) {
+				addSection(room, outline.metrics);
+			}
+		}
+		const sepBytes = room.sectionCount > 0 ? room.separator.bytes : 0;
+		const sepLines = room.sectionCount > 0 ? room.separator.lines : 0;
+		const remainingBytes = budget.maxBytes - room.usedBytes - sepBytes;
+		const remainingLines = budget.maxLines - room.usedLines - sepLines;
 
-		if (remainingBytes <= 0 || remainingLines <= 0) {
+		if (!canFitPartialSection(remainingLines, remainingBytes, format)) {
 			break;
 		}
 
-		const partialText = buildPartialSection(candidates[index], remainingLines, remainingBytes);
-		if (!partialText) {
+		const key = `${index}:${remainingLines}:${remainingBytes}`;
+		if (!partialCache.has(key)) {
+			partialCache.set(key, buildPartialSection(candidates[index], remainingLines, remainingBytes, format));
+		}
+		const partial = partialCache.get(key);
+		if (!partial) {
 			continue;
 		}
 
-		const metrics = measureText(partialText);
-		partialSection = { index, text: partialText, metrics };
-		addSection(state, metrics);
+		partialSections.push({ index, ...partial });
+		addSection(state, partial.metrics);
 		break;
 	}
 
-	const omittedIndexes: number[] = [];
-	for (let i = 0; i < candidates.length; i++) {
-		if (fullIncluded.has(i) || partialSection?.index === i) {
-			continue;
-		}
-		omittedIndexes.push(i);
-	}
-
 	return {
 		strategy,
 		fullIncluded,
-		partialSection,
-		omittedIndexes,
+		partialSections,
+		omittedIndexes: collectOmitted(candidates, fullIncluded, partialSections),
 		usedBytes: state.usedBytes,
 		usedLines: state.usedLines,
 		sectionCount: state.sectionCount,
@@ -312,147 +849,1642 @@ function buildPlan(strategy: PackingStrategy, order: number[], candidates: FileC
 	};
 }
 
-export function createReadManyTool(readToolFactory: typeof createReadTool = createReadTool): ToolDefinition {
+/**
+ * Counts the file lines in a read body, excluding the trailing notice the read tool appends when it
+ * truncates output or when a `limit` leaves lines unread.
+ */
+function countContentLines(body: string, limit: number | undefined, details: ReadToolDetails | undefined): number {
+	const truncation = details?.truncation;
+	if (truncation?.truncated) {
+		return truncation.firstLineExceedsLimit ? 0 : truncation.outputLines;
+	}
+	const bodyLines = measureText(body).lines;
+	return limit !== undefined ? Math.min(limit, bodyLines) : bodyLines;
+}
+
+/**
+ * Sorts and merges a request's `ranges` (plus its `offset`/`limit`, when set) so overlapping or
+ * adjacent ranges are read once. Returns undefined for requests without `ranges`.
+ */
+function mergeRanges(request: FileRequest): LineRange[] | undefined {
+	if (!request.ranges?.length) {
+		return undefined;
+	}
+
+	const ranges = [...request.ranges];
+	if (request.offset !== undefined || request.limit !== undefined) {
+		ranges.push({ offset: request.offset ?? 1, limit: request.limit });
+	}
+
+	const spans = ranges
+		.map((range) => {
+			const start = Math.max(1, Math.floor(range.offset));
+			const end = range.limit === undefined ? Infinity : start + Math.max(0, Math.floor(range.limit));
+			return { start, end };
+		})
+		.filter((span) => span.end > span.start)
+		.sort((a, b) => a.start - b.start || a.end - b.end);
+
+	const merged: Array<{ start: number; end: number }> = [];
+	for (const span of spans) {
+		const last = merged.at(-1);
+		if (last && span.start <= last.end) {
+			last.end = Math.max(last.end, span.end);
+		} else {
+			merged.push({ ...span });
+		}
+	}
+
+	return merged.map(({ start, end }) => (end === Infinity ? { offset: start } : { offset: start, limit: end - start }));
+}
+
+function formatElisionMarker(fromLine: number, toLine: number): string {
+	return fromLine === toLine ? `[... line ${fromLine} elided ...]` : `[... lines ${fromLine}-${toLine} elided ...]`;
+}
+
+/**
+ * Prefixes the file lines of a body with their 1-based line numbers (`N: `). Elision markers and
+ * the read tool's trailing notices stay unnumbered.
+ */
+function numberBodyLines(body: string, segments: BodySegment[]): string {
+	const lines = body.split("\n");
+	let bodyLine = 0;
+	for (const { range, lines: count } of segments) {
+		for (let i = 0; i < count && bodyLine + i < lines.length; i++) {
+			lines[bodyLine + i] = `${range.offset + i}: ${lines[bodyLine + i]}`;
+		}
+		bodyLine += count + 1; // segment lines plus the elision marker that follows it
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Renders the body of an image read: its text, a placeholder naming each attached image by its
+ * attachment number, and a summary of the images left out. `attachments[i]` is the number of
+ * image `i`, or undefined when it is not attached.
+ */
+function formatImageBody(imageRead: ImageRead, attachments: Array<number | undefined>): string {
+	const lines = imageRead.text ? [imageRead.text] : [];
+	imageRead.images.forEach((image, i) => {
+		const number = attachments[i];
+		if (number !== undefined) {
+			const size = formatSize(Buffer.byteLength(image.data, "base64"));
+			lines.push(`[Image attachment #${number} (${image.mimeType}, ${size}) follows the file blocks]`);
+		}
+	});
+	const omittedCount = imageRead.images.length - attachments.filter((number) => number !== undefined).length;
+	if (omittedCount > 0) {
+		lines.push(`[${omittedCount} image attachment(s) omitted; use read on this file for image payload.]`);
+	}
+	return lines.join("\n");
+}
+
+function summarizeReadContent(
+	content: Array<{ type: string; text?: string; data?: string; mimeType?: string }>,
+): ReadContentSummary {
+	const text = content
+		.filter((item): item is { type: "text"; text: string } => item.type === "text")
+		.map((item) => item.text)
+		.join("\n");
+	const images = content.filter((item): item is ImageAttachment => item.type === "image");
+	if (images.length === 0) {
+		return { body: text || "[No text content returned]", imageCount: 0 };
+	}
+	const imageRead = { text, images };
+	return { body: formatImageBody(imageRead, []), imageCount: images.length, imageRead };
+}
+
+/**
+ * File lines `offset` to `end - 1` of content the read tool loaded, up to the first line longer
+ * than `maxBytes`, which the read tool cannot return on its own.
+ */
+function splitLoadedLines(content: Buffer, offset: number, end: number, maxBytes: number): string[] {
+	const lines = content
+		.toString("utf-8")
+		.split("\n")
+		.slice(offset - 1, end === Infinity ? undefined : end - 1);
+	const tooLong = lines.findIndex((line) => Buffer.byteLength(line, "utf-8") > maxBytes);
+	return tooLong === -1 ? lines : lines.slice(0, tooLong);
+}
+
+/**
+ * Reads every line of `range`, paging past the underlying read tool's own limits. When the read
+ * tool loaded the file through read_many's operations, the pages after the first are split from
+ * that content, so the file is loaded once. Stops early at a line the read tool cannot return on
+ * its own. `image` is set when the read returned images instead.
+ */
+async function readRangeLines(
+	{ readTool, loaded }: LineSource,
+	id: string,
+	path: string,
+	range: LineRange,
+	signal: AbortSignal | undefined,
+): Promise<{ lines: string[]; image?: ReadContentSummary }> {
+	const lines: string[] = [];
+	const end = range.limit !== undefined ? range.offset + range.limit : Infinity;
+	for (let offset = range.offset, page = 0; offset < end; page++) {
+		const input: ReadToolInput = { path, offset, limit: end === Infinity ? undefined : end - offset };
+		const result = await readTool.execute(page === 0 ? id : `${id}:${page}`, input, signal, undefined);
+		const details = result.details as ReadToolDetails | undefined;
+		const summary = summarizeReadContent(result.content);
+		if (summary.imageCount > 0) {
+			return { lines, image: summary };
+		}
+		const { body } = summary;
+
+		const count = countContentLines(body, input.limit, details);
+		lines.push(...body.split("\n").slice(0, count));
+		if (!details?.truncation?.truncated || count === 0) {
+			break;
+		}
+		offset += count;
+		const content = loaded?.();
+		if (content) {
+			lines.push(...splitLoadedLines(content, offset, end, details.truncation.maxBytes));
+			break;
+		}
+	}
+	return { lines };
+}
+
+/**
+ * Whether a pattern repeats a group that itself holds a repetition, like `(a+)+` or `(\w*x?)*`:
+ * backtracking through both can take exponential time on a line that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+	const groups: boolean[] = []; // per open group: whether it holds a quantifier
+	let closedRepeating = false; // whether the group that just closed holds one
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		const quantifier = char === "*" || char === "+" || (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)));
+		if (quantifier) {
+			if (closedRepeating) {
+				return true;
+			}
+			if (groups.length > 0) {
+				groups[groups.length - 1] = true;
+			}
+		}
+		closedRepeating = false;
+		if (char === "\\") {
+			i += 1;
+		} else if (char === "[") {
+			for (i += 1; i < pattern.length && pattern[i] !== "]"; i++) {
+				i += pattern[i] === "\\" ? 1 : 0;
+			}
+		} else if (char === "(") {
+			groups.push(false);
+		} else if (char === ")") {
+			closedRepeating = groups.pop() ?? false;
+			if (closedRepeating && groups.length > 0) {
+				groups[groups.length - 1] = true;
+			}
+		}
+	}
+	return false;
+}
+
+/** Compiles a request's pattern, failing the read on invalid patterns and on nested repetition. */
+function compilePattern(pattern: string): RegExp {
+	let regex: RegExp;
+	try {
+		regex = new RegExp(pattern);
+	} catch (error) {
+		throw new ReadError("read_failed", error instanceof Error ? error.message : String(error));
+	}
+	if (hasNestedQuantifier(pattern)) {
+		throw new ReadError(
+			"read_failed",
+			`Pattern /${pattern}/ repeats a group that itself repeats, which can take exponential time to match; simplify it`,
+		);
+	}
+	return regex;
+}
+
+/**
+ * Reads a pattern request and keeps only matching lines plus `context` lines around each match,
+ * numbered `N:` for matches and `N-` for context. Each hunk is one body segment, so the `...` line
+ * between hunks doubles as the segment elision marker.
+ */
+async function readMatches(
+	source: LineSource,
+	callId: string,
+	request: FileRequest,
+	pattern: string,
+	signal: AbortSignal | undefined,
+): Promise<FileReadResult> {
+	const regex = compilePattern(pattern);
+	const context = Math.max(0, Math.floor(request.context ?? DEFAULT_CONTEXT_LINES));
+	const ranges = mergeRanges(request);
+	const reads = ranges ?? [{ offset: request.offset ? Math.max(1, request.offset) : 1, limit: request.limit }];
+
+	const bodyLines: string[] = [];
+	const segments: BodySegment[] = [];
+	let matchCount = 0;
+	for (let r = 0; r < reads.length; r++) {
+		const id = reads.length > 1 ? `${callId}:${r}` : callId;
+		const { lines, image } = await readRangeLines(source, id, request.path, reads[r], signal);
+		if (image) {
+			// Images have no lines to match; keep the plain single-read rendering.
+			return image;
+		}
+
+		const matched = lines.map((line) => regex.test(line.slice(0, MAX_PATTERN_LINE_LENGTH)));
+		const hunks: BodySpan[] = [];
+		matched.forEach((isMatch, i) => {
+			if (!isMatch) {
+				return;
+			}
+			matchCount += 1;
+			const start = Math.max(0, i - context);
+			const end = Math.min(lines.length, i + context + 1);
+			const last = hunks.at(-1);
+			if (last && start <= last.end) {
+				last.end = end;
+			} else {
+				hunks.push({ start, end });
+			}
+		});
+
+		for (const { start, end } of hunks) {
+			if (segments.length > 0) {
+				bodyLines.push("...");
+			}
+			const offset = reads[r].offset + start;
+			for (let i = start; i < end; i++) {
+				bodyLines.push(`${offset + i - start}${matched[i] ? ":" : "-"} ${lines[i]}`);
+			}
+			segments.push({ range: { offset, limit: end - start }, lines: end - start });
+		}
+	}
+
+	if (segments.length === 0) {
+		return { body: `[No lines match /${pattern}/]`, imageCount: 0, ranges, matchCount };
+	}
+	return { body: bodyLines.join("\n"), imageCount: 0, ranges, segments, matchCount };
+}
+
+/**
+ * Resolves a symbol request to its declaration's file lines, then reads just those as an
+ * offset/limit request, so patterns, partial modes and continuations apply as usual.
+ */
+async function readSymbol(
+	source: LineSource,
+	callId: string,
+	request: FileRequest,
+	symbol: string,
+	partialMode: PartialMode,
+	pageLimit: OutputBudget,
+	signal: AbortSignal | undefined,
+): Promise<FileReadResult> {
+	if (!isScriptPath(request.path)) {
+		throw new Error(`Symbol reads support TS/JS files only (${request.path})`);
+	}
+	const { lines } = await readRangeLines(source, `${callId}:symbol`, request.path, { offset: 1 }, signal);
+	const span = resolveSymbol(lines, symbol);
+	if (!span) {
+		const closest = suggestSymbols(lines, symbol);
+		throw new Error(
+			closest.length > 0
+				? `Symbol "${symbol}" not found. Closest symbols: ${closest.join(", ")}`
+				: `Symbol "${symbol}" not found; the file declares no symbols`,
+		);
+	}
+
+	const range = { offset: span.start + 1, limit: span.end - span.start };
+	const result = await readRequest(
+		source,
+		callId,
+		{ ...request, ...range, ranges: undefined, symbol: undefined },
+		partialMode,
+		pageLimit,
+		signal,
+	);
+	return { ...result, symbol: { name: symbol, startLine: range.offset, endLine: span.end } };
+}
+
+/** The file's line count from the read tool's `[Showing lines S-E of T ...]` notice, if the body ends with one. */
+function noticedTotalLines(body: string): number | undefined {
+	const match = /\[Showing lines \d+-\d+ of (\d+)[ .]/.exec(body.slice(body.lastIndexOf("\n") + 1));
+	return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Reads `input` through the read tool and, when the tool cut it at limits below `pageLimit`, goes
+ * on reading up to `pageLimit`, so calls with a larger budget are not held to the tool's own page.
+ * An extended page ends with the notice the read tool would give at those limits.
+ */
+async function readPage(
+	source: LineSource,
+	id: string,
+	input: ReadToolInput,
+	pageLimit: OutputBudget,
+	signal: AbortSignal | undefined,
+): Promise<ReadContentSummary & { details?: ReadToolDetails }> {
+	const result = await source.readTool.execute(id, input, signal, undefined);
+	const details = result.details as ReadToolDetails | undefined;
+	const summary = summarizeReadContent(result.content);
+	const truncation = details?.truncation;
+	if (
+		summary.imageCount > 0 ||
+		!truncation?.truncated ||
+		truncation.firstLineExceedsLimit ||
+		(pageLimit.maxLines <= truncation.maxLines && pageLimit.maxBytes <= truncation.maxBytes)
+	) {
+		return { ...summary, details };
+	}
+
+	const offset = input.offset ? Math.max(1, input.offset) : 1;
+	const firstLines = summary.body.split("\n").slice(0, truncation.outputLines);
+	const { lines: moreLines } = await readRangeLines(
+		source,
+		`${id}:more`,
+		input.path,
+		{
+			offset: offset + firstLines.length,
+			limit: Math.min(truncation.totalLines, pageLimit.maxLines) - firstLines.length,
+		},
+		signal,
+	);
+	const shown = truncateHead([...firstLines, ...moreLines].join("\n"), pageLimit);
+	const fileLines = noticedTotalLines(summary.body) ?? offset - 1 + truncation.totalLines;
+	const end = offset + shown.outputLines - 1;
+	if (shown.outputLines < truncation.totalLines) {
+		// Short of the limits, a line the read tool cannot return on its own stops the page as bytes would.
+		const truncatedBy = shown.truncated
+			? shown.truncatedBy
+			: shown.outputLines >= pageLimit.maxLines
+				? "lines"
+				: "bytes";
+		const limit = truncatedBy === "bytes" ? ` (${formatSize(pageLimit.maxBytes)} limit)` : "";
+		const notice = `[Showing lines ${offset}-${end} of ${fileLines}${limit}. Use offset=${end + 1} to continue.]`;
+		return {
+			body: `${shown.content}\n\n${notice}`,
+			imageCount: 0,
+			details: {
+				truncation: {
+					...shown,
+					truncated: true,
+					truncatedBy,
+					totalLines: truncation.totalLines,
+					totalBytes: truncation.totalBytes,
+				},
+			},
+		};
+	}
+	// The whole range fits; only a `limit` short of the end of the file leaves lines to mention.
+	if (end < fileLines) {
+		const notice = `[${fileLines - end} more lines in file. Use offset=${end + 1} to continue.]`;
+		return { body: `${shown.content}\n\n${notice}`, imageCount: 0 };
+	}
+	return { body: shown.content, imageCount: 0 };
+}
+
+/**
+ * Reads one request through the underlying read tool, up to `pageLimit` per range. Multi-range
+ * requests read each merged range separately and join the shown lines into a single body with
+ * elision markers between ranges.
+ */
+async function readRequest(
+	source: LineSource,
+	callId: string,
+	request: FileRequest,
+	partialMode: PartialMode,
+	pageLimit: OutputBudget,
+	signal: AbortSignal | undefined,
+): Promise<FileReadResult> {
+	if (request.symbol !== undefined) {
+		return readSymbol(source, callId, request, request.symbol, partialMode, pageLimit, signal);
+	}
+	if (request.pattern !== undefined) {
+		return readMatches(source, callId, request, request.pattern, signal);
+	}
+
+	const ranges = mergeRanges(request);
+	const reads = ranges ?? [{ offset: request.offset, limit: request.limit }];
+
+	const parts: Array<{ range: LineRange; body: string; lines: number; details?: ReadToolDetails }> = [];
+	for (let r = 0; r < reads.length; r++) {
+		const input: ReadToolInput = { path: request.path, offset: reads[r].offset, limit: reads[r].limit };
+		const id = ranges && ranges.length > 1 ? `${callId}:${r}` : callId;
+		const { body, imageCount, imageRead, details } = await readPage(source, id, input, pageLimit, signal);
+
+		if (imageCount > 0) {
+			// Ranges are meaningless for images; keep the plain single-read rendering.
+			return { body, imageCount, imageRead, truncation: details?.truncation };
+		}
+
+		const range = { offset: input.offset ? Math.max(1, input.offset) : 1, limit: input.limit };
+		parts.push({ range, body, lines: countContentLines(body, input.limit, details), details });
+	}
+
+	const truncation = parts[0].details?.truncation;
+	if (
+		partialMode !== "head" &&
+		!ranges &&
+		truncation?.truncated &&
+		!truncation.firstLineExceedsLimit &&
+		truncation.totalLines - parts[0].lines >= 2
+	) {
+		// The read tool stops at its own limits, so fetch the end of the range for tail cuts too. The
+		// head part's range then covers everything up to the tail, keeping continuations complete.
+		const [head] = parts;
+		const end = head.range.offset + truncation.totalLines;
+		const tailOffset = Math.max(head.range.offset + head.lines + 1, end - head.lines);
+		head.range = { offset: head.range.offset, limit: tailOffset - head.range.offset };
+		const input: ReadToolInput = {
+			path: request.path,
+			offset: tailOffset,
+			limit: request.limit !== undefined ? end - tailOffset : undefined,
+		};
+		const { body, details } = await readPage(source, `${callId}:tail`, input, pageLimit, signal);
+		const range = { offset: tailOffset, limit: input.limit };
+		parts.push({ range, body, lines: countContentLines(body, input.limit, details), details });
+	}
+
+	if (parts.length === 1) {
+		const [part] = parts;
+		return {
+			body: part.body,
+			imageCount: 0,
+			truncation: part.details?.truncation,
+			ranges,
+			segments: [{ range: part.range, lines: part.lines }],
+		};
+	}
+
+	const bodyLines: string[] = [];
+	for (let r = 0; r < parts.length; r++) {
+		const part = parts[r];
+		const lines = part.body.split("\n");
+		if (r > 0) {
+			const previous = parts[r - 1];
+			bodyLines.push(formatElisionMarker(previous.range.offset + previous.lines, part.range.offset - 1));
+		}
+		// The last range keeps the read tool's trailing notice (e.g. "N more lines in file").
+		bodyLines.push(...(r === parts.length - 1 ? lines : lines.slice(0, part.lines)));
+	}
+
+	return {
+		body: bodyLines.join("\n"),
+		imageCount: 0,
+		truncation: parts.find((part) => part.details?.truncation?.truncated)?.details?.truncation,
+		ranges,
+		segments: parts.map((part) => ({ range: part.range, lines: part.lines })),
+	};
+}
+
+/**
+ * Narrows a `changed` entry in hunks mode to its changed lines plus context. Files without line
+ * changes (such as untracked ones) are read in full.
+ */
+async function withChangedRanges(request: FileRequest, cwd: string): Promise<FileRequest> {
+	const { changed } = request;
+	if (!changed || changed.mode === "full") {
+		return request;
+	}
+	const hunks = await diffChangedLines(changed.base, request.path, cwd);
+	if (hunks.length === 0) {
+		return request;
+	}
+	const context = Math.max(0, Math.floor(changed.context ?? DEFAULT_HUNK_CONTEXT_LINES));
+	const ranges = hunks.map(({ offset, limit }) => {
+		// A pure deletion sits between lines `offset` and `offset + 1`; show at least those two.
+		const first = limit > 0 ? offset : offset + 1;
+		const around = limit > 0 ? context : Math.max(1, context);
+		const start = Math.max(1, first - around);
+		return { offset: start, limit: first + limit - 1 + around - start + 1 };
+	});
+	return { ...request, offset: undefined, limit: undefined, ranges };
+}
+
+interface EntryOutcome {
+	candidate: FileCandidate;
+	detail: ReadManyFileDetail;
+}
+
+/**
+ * Whether a request reads a file from its first line with nothing but the read tool's own limits
+ * in the way, so the start of the file alone yields the same body up to the trailing notice.
+ */
+function isWindowable(request: FileRequest, defaultPartialMode: PartialMode): boolean {
+	return (
+		request.ref === undefined &&
+		request.pattern === undefined &&
+		request.symbol === undefined &&
+		!request.ranges?.length &&
+		request.offset === undefined &&
+		request.limit === undefined &&
+		(request.changed === undefined || request.changed.mode === "full") &&
+		// Tail cuts read the end of the file as well.
+		(request.partialMode ?? defaultPartialMode) === "head"
+	);
+}
+
+/** Session-cache entry of a successful read, recorded once its block is packed in full. */
+interface ReadFingerprint {
+	key: string;
+	hash: string;
+	mtimeMs: number;
+}
+
+/** Reads files for one git revision, or the working tree, and sniffs them for binary content first. */
+interface EntryReader extends LineSource {
+	detectBinary: (absolutePath: string) => Promise<BinaryFile | undefined>;
+}
+
+/**
+ * Reads one expanded entry into its packing candidate and detail. Read failures become error blocks
+ * instead of rejections, so one bad path never aborts its siblings. Binary files other than images
+ * the read tool attaches become a summary block without reading them.
+ */
+async function readEntry(
+	reader: EntryReader,
+	callId: string,
+	index: number,
+	entry: ExpandedEntry<FileRequest>,
+	cwd: string,
+	format: OutputFormat,
+	defaultPartialMode: PartialMode,
+	pageLimit: OutputBudget,
+	signal: AbortSignal | undefined,
+): Promise<EntryOutcome> {
+	const { request, source } = entry;
+	const partialMode = request.partialMode ?? defaultPartialMode;
+	try {
+		if (entry.error) {
+			throw new Error(entry.error);
+		}
+		const binary = await reader.detectBinary(resolveInputPath(request.path, cwd));
+		// Git revisions are read without image detection, so images there are binary too.
+		if (binary && !(binary.image && request.ref === undefined)) {
+			if (request.pattern !== undefined || request.symbol !== undefined) {
+				const kind = request.pattern !== undefined ? "Pattern" : "Symbol";
+				throw new ReadError("binary", `${kind} reads need a text file, not binary data (${binary.type})`);
+			}
+			const body = formatBinaryBody(binary);
+			const fullText = format.formatBlock(request.path, body, index + 1, blockHeader({ request }, undefined));
+			return {
+				candidate: {
+					index,
+					path: request.path,
+					request,
+					ok: true,
+					fullText,
+					fullMetrics: measureText(fullText),
+					body,
+					partialMode,
+				},
+				detail: { path: request.path, ok: true, source, binary: true },
+			};
+		}
+
+		const read = await readRequest(
+			reader,
+			callId,
+			await withChangedRanges(request, cwd),
+			partialMode,
+			pageLimit,
+			signal,
+		);
+		const { imageCount, imageRead, truncation, ranges, segments, matchCount, symbol } = read;
+		// Pattern bodies are numbered already.
+		const body =
+			request.lineNumbers && segments && request.pattern === undefined
+				? numberBodyLines(read.body, segments)
+				: read.body;
+		const fullText = format.formatBlock(request.path, body, index + 1, blockHeader({ request, symbol }, undefined));
+		return {
+			candidate: {
+				index,
+				path: request.path,
+				request,
+				ok: true,
+				fullText,
+				fullMetrics: measureText(fullText),
+				body,
+				segments,
+				partialMode,
+				symbol,
+				imageRead,
+			},
+			detail: {
+				path: request.path,
+				ok: true,
+				source,
+				ranges: ranges && ranges.length > 1 ? ranges : undefined,
+				matchCount,
+				symbolRange: symbol ? { offset: symbol.startLine, limit: symbol.endLine - symbol.startLine + 1 } : undefined,
+				imageCount,
+				truncation,
+			},
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		const errorCode = entry.errorCode ?? classifyReadError(error);
+		const fullText = format.formatBlock(request.path, `[Error: ${message}]`, index + 1);
+		return {
+			candidate: {
+				index,
+				path: request.path,
+				request,
+				ok: false,
+				fullText,
+				fullMetrics: measureText(fullText),
+				partialMode,
+			},
+			detail: {
+				path: request.path,
+				ok: false,
+				error: message,
+				errorCode,
+				source,
+			},
+		};
+	}
+}
+
+/**
+ * Attaches the images of image reads in request order while they fit the image budget, numbering
+ * them across the call. Each attached image's block names it by number; images past the budget
+ * stay summarized in text.
+ */
+function attachImages(outcomes: EntryOutcome[], budget: ImageBudget, format: OutputFormat): EntryOutcome[] {
+	let count = 0;
+	let bytes = 0;
+	return outcomes.map((outcome) => {
+		const { candidate, detail } = outcome;
+		const { imageRead } = candidate;
+		if (!candidate.ok || !imageRead) {
+			return outcome;
+		}
+		const attachments: Array<{ number: number; image: ImageAttachment }> = [];
+		const numbers = imageRead.images.map((image) => {
+			const size = Buffer.byteLength(image.data, "base64");
+			if (count >= budget.maxImages || bytes + size > budget.maxBytes) {
+				return undefined;
+			}
+			count += 1;
+			bytes += size;
+			attachments.push({ number: count, image });
+			return count;
+		});
+		if (attachments.length === 0) {
+			return outcome;
+		}
+		const body = formatImageBody(imageRead, numbers);
+		const fullText = format.formatBlock(candidate.path, body, candidate.index + 1, blockHeader(candidate, undefined));
+		return {
+			candidate: { ...candidate, body, fullText, fullMetrics: measureText(fullText), attachments },
+			detail: { ...detail, attachedImageCount: attachments.length },
+		};
+	});
+}
+
+/** Turns an entry the path policy denies into an error entry carrying the denial reason. */
+async function applyPathPolicy(
+	entry: ExpandedEntry<FileRequest>,
+	policies: PolicySource[],
+	cwd: string,
+): Promise<ExpandedEntry<FileRequest>> {
+	if (entry.error) {
+		return entry;
+	}
+	const denial = await checkPathPolicy(policies, resolveInputPath(entry.request.path, cwd), cwd);
+	return denial ? { ...entry, error: denial, errorCode: "policy_denied" } : entry;
+}
+
+/**
+ * Adds what the model needs to retry a failed read to its error block: the closest existing paths
+ * for a missing literal path, or the entries of a directory that has nothing to read.
+ */
+async function explainError(outcome: EntryOutcome, hints: ErrorHints, format: OutputFormat): Promise<EntryOutcome> {
+	const { candidate, detail } = outcome;
+	let hint: string | undefined;
+	if (detail.errorCode === "not_found" && detail.source === undefined && candidate.request.ref === undefined) {
+		const paths = await hints.similarPaths(candidate.path);
+		hint = paths.length > 0 ? `[Closest existing paths: ${paths.join(", ")}]` : undefined;
+	} else if (detail.errorCode === "is_directory") {
+		const { names, moreCount } = await hints.listDirectory(candidate.path);
+		const more = moreCount > 0 ? `, ... ${moreCount} more` : "";
+		hint = `[Directory contents: ${names.length > 0 ? names.join(", ") : "empty"}${more}]`;
+	}
+	if (hint === undefined) {
+		return outcome;
+	}
+	const fullText = format.formatBlock(candidate.path, `[Error: ${detail.error}]\n${hint}`, candidate.index + 1);
+	return { candidate: { ...candidate, fullText, fullMetrics: measureText(fullText) }, detail };
+}
+
+/** Masks likely secrets in a successful text read and re-renders its full block. */
+function redactOutcome(outcome: EntryOutcome, format: OutputFormat): EntryOutcome {
+	const { candidate, detail } = outcome;
+	if (!candidate.ok || candidate.body === undefined || detail.imageCount || detail.binary) {
+		return outcome;
+	}
+	const { text: body, count } = redactSecrets(candidate.body);
+	if (count === 0) {
+		return { candidate, detail: { ...detail, redactionCount: 0 } };
+	}
+	const fullText = format.formatBlock(candidate.path, body, candidate.index + 1, blockHeader(candidate, undefined));
+	return {
+		candidate: { ...candidate, body, fullText, fullMetrics: measureText(fullText) },
+		detail: { ...detail, redactionCount: count },
+	};
+}
+
+/** Adds file metadata to a successful read and re-renders its full block with the metadata header. */
+async function addMetadata(outcome: EntryOutcome, cwd: string, format: OutputFormat): Promise<EntryOutcome> {
+	const { candidate } = outcome;
+	if (!candidate.ok || candidate.body === undefined) {
+		return outcome;
+	}
+	const metadata: FileMetadata = {
+		language: getLanguageFromPath(candidate.path),
+		// Disk stats describe the working tree, not the revision a `ref` read shows.
+		stats:
+			candidate.request.ref === undefined ? await readFileStats(resolveInputPath(candidate.path, cwd)) : undefined,
+	};
+	const withMetadata = { ...candidate, metadata };
+	const header = blockHeader(withMetadata, fullRanges(candidate));
+	const fullText = format.formatBlock(candidate.path, candidate.body, candidate.index + 1, header);
+	return { ...outcome, candidate: { ...withMetadata, fullText, fullMetrics: measureText(fullText) } };
+}
+
+/**
+ * Looks a successful text read up in the session cache. A repeat of an unchanged read becomes a
+ * one-line notice block; any other read comes back with the fingerprint to record for it.
+ */
+async function dedupeOutcome(
+	outcome: EntryOutcome,
+	cache: ReadCache,
+	cwd: string,
+	format: OutputFormat,
+	force: boolean,
+): Promise<{ outcome: EntryOutcome; fingerprint?: ReadFingerprint }> {
+	const { candidate, detail } = outcome;
+	if (!candidate.ok || candidate.body === undefined || detail.imageCount || detail.binary) {
+		return { outcome };
+	}
+	const absolutePath = resolveInputPath(candidate.path, cwd);
+	const mtimeMs = await readMtime(absolutePath);
+	if (mtimeMs === undefined) {
+		return { outcome };
+	}
+
+	const fingerprint = {
+		key: readCacheKey(absolutePath, candidate.request),
+		hash: hashContent(candidate.body),
+		mtimeMs,
+	};
+	const cached = force ? undefined : findUnchanged(cache, fingerprint.key, fingerprint.hash, mtimeMs);
+	if (!cached) {
+		return { outcome, fingerprint };
+	}
+	const fullText = format.formatBlock(candidate.path, formatUnchangedNotice(cached), candidate.index + 1);
+	return {
+		outcome: {
+			candidate: {
+				...candidate,
+				fullText,
+				fullMetrics: measureText(fullText),
+				body: undefined,
+				segments: undefined,
+				symbol: undefined,
+			},
+			detail: { ...detail, unchangedSince: cached.turn },
+		},
+	};
+}
+
+/**
+ * Runs `task` for indexes `0..count-1` with at most `concurrency` in flight, starting them in index
+ * order. Once `shouldStop` accepts a result, later indexes are no longer started and results after
+ * the first stopping index (in index order) are discarded. Aborting stops scheduling; in-flight
+ * tasks are still awaited. Returns the kept results in index order.
+ */
+async function runInRequestOrder<T>(
+	count: number,
+	concurrency: number,
+	task: (index: number) => Promise<T>,
+	shouldStop: (result: T) => boolean,
+	signal: AbortSignal | undefined,
+): Promise<T[]> {
+	const results: T[] = new Array(count);
+	let nextIndex = 0;
+	let endIndex = count;
+
+	async function worker(): Promise<void> {
+		while (nextIndex < endIndex && !signal?.aborted) {
+			const index = nextIndex++;
+			const result = await task(index);
+			results[index] = result;
+			if (shouldStop(result)) {
+				endIndex = Math.min(endIndex, index + 1);
+			}
+		}
+	}
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, count) }, () => worker()));
+	return results.slice(0, Math.min(endIndex, nextIndex));
+}
+
+function formatProgress(progress: ReadManyProgress): string {
+	const failed = progress.errorCount > 0 ? `, ${progress.errorCount} failed` : "";
+	return `Read ${progress.doneCount}/${progress.totalCount} files (${progress.successCount} ok${failed}), ${formatSize(progress.bytes)} / ${progress.lines} lines so far; last: ${progress.lastPath}`;
+}
+
+/**
+ * Applies the call-level `pattern`/`context` to an entry that does not set its own, so the entry
+ * carries them into continuations.
+ */
+function withCallDefaults(
+	request: FileRequest,
+	params: Pick<ReadManyInput, "pattern" | "context" | "lineNumbers">,
+): FileRequest {
+	const resolved = request.lineNumbers === undefined && params.lineNumbers ? { ...request, lineNumbers: true } : request;
+	const pattern = request.pattern ?? params.pattern;
+	if (pattern === undefined) {
+		return resolved;
+	}
+	const context = request.context ?? params.context;
+	return context === undefined ? { ...resolved, pattern } : { ...resolved, pattern, context };
+}
+
+function toFileRequest(path: string, ranges: LineRange[]): FileRequest {
+	if (ranges.length === 1) {
+		const [{ offset, limit }] = ranges;
+		return limit === undefined ? { path, offset } : { path, offset, limit };
+	}
+	return { path, ranges };
+}
+
+function hasPriorities(candidates: FileCandidate[]): boolean {
+	return candidates.some((candidate) => candidate.request.priority !== undefined || candidate.request.required);
+}
+
+/**
+ * What including each candidate completely is worth to the optimal packer. Required files outweigh
+ * all non-required priorities combined, so no set of optional files can displace one.
+ */
+function packingValues(candidates: FileCandidate[]): number[] {
+	const priorities = candidates.map((candidate) => Math.max(0, candidate.request.priority ?? DEFAULT_PRIORITY));
+	const optionalTotal = candidates.reduce(
+		(total, candidate, i) => (candidate.request.required ? total : total + priorities[i]),
+		0,
+	);
+	return candidates.map((candidate, i) =>
+		candidate.request.required ? optionalTotal + 1 + priorities[i] : priorities[i],
+	);
+}
+
+/**
+ * Picks the successful candidates whose combined value is highest while their full blocks fit the
+ * budget, solving the two-dimensional (bytes, lines) 0/1 knapsack by dynamic programming. Every block
+ * is charged one separator and the capacity gets one back, matching `canFitSection`. Budgets larger
+ * than the table are scaled down with sizes rounded up, so a selection never overflows.
+ */
+function selectOptimalSubset(candidates: FileCandidate[], budget: OutputBudget, format: OutputFormat): number[] {
+	const separator = measureSeparator(format.separator);
+	const values = packingValues(candidates);
+	const capacityBytes = budget.maxBytes + separator.bytes;
+	const capacityLines = budget.maxLines + separator.lines;
+	const byteUnit = Math.max(1, Math.ceil(capacityBytes / OPTIMAL_GRID_SIZE));
+	const lineUnit = Math.max(1, Math.ceil(capacityLines / OPTIMAL_GRID_SIZE));
+	const maxByteCells = Math.floor(capacityBytes / byteUnit);
+	const maxLineCells = Math.floor(capacityLines / lineUnit);
+	const width = maxLineCells + 1;
+	const cellCount = (maxByteCells + 1) * width;
+
+	const items = candidates
+		.filter((candidate) => candidate.ok)
+		.map((candidate) => ({
+			index: candidate.index,
+			value: values[candidate.index],
+			byteCells: Math.ceil((candidate.fullMetrics.bytes + separator.bytes) / byteUnit),
+			lineCells: Math.ceil((candidate.fullMetrics.lines + separator.lines) / lineUnit),
+		}))
+		.filter((item) => item.value > 0 && item.byteCells <= maxByteCells && item.lineCells <= maxLineCells);
+
+	const best = new Float64Array(cellCount);
+	const taken = new Uint8Array(items.length * cellCount);
+	for (let k = 0; k < items.length; k++) {
+		const { value, byteCells, lineCells } = items[k];
+		for (let b = maxByteCells; b >= byteCells; b--) {
+			for (let l = maxLineCells; l >= lineCells; l--) {
+				const withItem = best[(b - byteCells) * width + (l - lineCells)] + value;
+				if (withItem > best[b * width + l]) {
+					best[b * width + l] = withItem;
+					taken[k * cellCount + b * width + l] = 1;
+				}
+			}
+		}
+	}
+
+	const selected: number[] = [];
+	let b = maxByteCells;
+	let l = maxLineCells;
+	for (let k = items.length - 1; k >= 0; k--) {
+		if (taken[k * cellCount + b * width + l]) {
+			selected.push(items[k].index);
+			b -= items[k].byteCells;
+			l -= items[k].lineCells;
+		}
+	}
+	return selected.sort((x, y) => x - y);
+}
+
+/**
+ * Packs every file into the budget, each at least in part. Files that fit an equal share of the
+ * budget are included whole and what they leave unused is shared again among the rest; each file
+ * still over its share gets a partial block cut to that share.
+ */
+function buildFairSharePlan(
+	candidates: FileCandidate[],
+	budget: OutputBudget,
+	format: OutputFormat,
+	partialCache: PartialCache,
+): PackingPlan {
+	const separator = measureSeparator(format.separator);
+	const separatorCount = Math.max(0, candidates.length - 1);
+	let availableBytes = budget.maxBytes - separatorCount * separator.bytes;
+	let availableLines = budget.maxLines - separatorCount * separator.lines;
+
+	const fullIncluded = new Set<number>();
+	const totalBytes = candidates.reduce((total, candidate) => total + candidate.fullMetrics.bytes, 0);
+	const totalLines = candidates.reduce((total, candidate) => total + candidate.fullMetrics.lines, 0);
+	let pending = candidates.map((_, i) => i);
+	if (totalBytes <= availableBytes && totalLines <= availableLines) {
+		pending.forEach((index) => fullIncluded.add(index));
+		pending = [];
+	}
+
+	for (let changed = true; changed && pending.length > 0; ) {
+		changed = false;
+		const shareBytes = availableBytes / pending.length;
+		const shareLines = availableLines / pending.length;
+		const overShare: number[] = [];
+		for (const index of pending) {
+			const { bytes, lines } = candidates[index].fullMetrics;
+			if (bytes <= shareBytes && lines <= shareLines) {
+				fullIncluded.add(index);
+				availableBytes -= bytes;
+				availableLines -= lines;
+				changed = true;
+			} else {
+				overShare.push(index);
+			}
+		}
+		pending = overShare;
+	}
+
+	const partialSections: PackedSection[] = [];
+	if (pending.length > 0) {
+		const shareBytes = Math.floor(availableBytes / pending.length);
+		const shareLines = Math.floor(availableLines / pending.length);
+		for (const index of pending) {
+			const key = `${index}:${shareLines}:${shareBytes}`;
+			if (!partialCache.has(key)) {
+				partialCache.set(key, buildPartialSection(candidates[index], shareLines, shareBytes, format));
+			}
+			const partial = partialCache.get(key);
+			if (partial) {
+				partialSections.push({ index, ...partial });
+			}
+		}
+		partialSections.sort((a, b) => a.index - b.index);
+	}
+
+	const sections = [
+		...[...fullIncluded].map((index) => candidates[index].fullMetrics),
+		...partialSections.map((section) => section.metrics),
+	];
+	const joinedSeparators = Math.max(0, sections.length - 1);
+	return {
+		strategy: "fair-share",
+		fullIncluded,
+		partialSections,
+		omittedIndexes: collectOmitted(candidates, fullIncluded, partialSections),
+		usedBytes: sections.reduce((total, metrics) => total + metrics.bytes, joinedSeparators * separator.bytes),
+		usedLines: sections.reduce((total, metrics) => total + metrics.lines, joinedSeparators * separator.lines),
+		sectionCount: sections.length,
+		fullCount: fullIncluded.size,
+		fullSuccessCount: [...fullIncluded].filter((index) => candidates[index].ok).length,
+	};
+}
+
+function choosePlan(
+	candidates: FileCandidate[],
+	budget: OutputBudget,
+	format: OutputFormat,
+	strategy: PackingStrategyOption,
+	partialCache: PartialCache,
+	outlineCache: OutlineCache,
+): { plan: PackingPlan; switchedForCoverage: boolean } {
+	const requestOrder = candidates.map((_, i) => i);
+	const caches = [partialCache, outlineCache] as const;
+	if (strategy === "fair-share") {
+		return { plan: buildFairSharePlan(candidates, budget, format, partialCache), switchedForCoverage: false };
+	}
+	if (strategy === "optimal" || (strategy === "auto" && hasPriorities(candidates))) {
+		// The chosen subset fits by construction; leftover room is then filled in request order.
+		const selected = selectOptimalSubset(candidates, budget, format);
+		const chosen = new Set(selected);
+		const order = [...selected, ...requestOrder.filter((i) => !chosen.has(i))];
+		return { plan: buildPlan("optimal", order, candidates, budget, format, ...caches), switchedForCoverage: false };
+	}
+
+	const smallestFirstOrder = [...requestOrder].sort((a, b) => {
+		const sizeDelta = candidates[a].fullMetrics.bytes - candidates[b].fullMetrics.bytes;
+		if (sizeDelta !== 0) {
+			return sizeDelta;
+		}
+		const lineDelta = candidates[a].fullMetrics.lines - candidates[b].fullMetrics.lines;
+		if (lineDelta !== 0) {
+			return lineDelta;
+		}
+		return a - b;
+	});
+
+	if (strategy !== "auto") {
+		const order = strategy === "smallest-first" ? smallestFirstOrder : requestOrder;
+		return { plan: buildPlan(strategy, order, candidates, budget, format, ...caches), switchedForCoverage: false };
+	}
+
+	const requestPlan = buildPlan("request-order", requestOrder, candidates, budget, format, ...caches);
+	const smallestPlan = buildPlan("smallest-first", smallestFirstOrder, candidates, budget, format, ...caches);
+	const switchedForCoverage = smallestPlan.fullSuccessCount > requestPlan.fullSuccessCount;
+	return { plan: switchedForCoverage ? smallestPlan : requestPlan, switchedForCoverage };
+}
+
+/**
+ * Returns the ranges of a body that a partial section did not show, given the body lines it kept.
+ * A gap running to the end of a segment extends to the end of the segment's requested range.
+ */
+function remainingRanges(segments: BodySegment[], shown: BodySpan[]): LineRange[] {
+	const rest: LineRange[] = [];
+	let bodyLine = 0;
+	for (const { range, lines } of segments) {
+		let cursor = 0; // segment-relative line where the current gap starts
+		for (const span of shown) {
+			const start = Math.max(0, span.start - bodyLine);
+			const end = Math.min(lines, span.end - bodyLine);
+			if (end <= start) {
+				continue;
+			}
+			if (start > cursor) {
+				rest.push({ offset: range.offset + cursor, limit: start - cursor });
+			}
+			cursor = end;
+		}
+		if (cursor < lines) {
+			const next: LineRange = { offset: range.offset + cursor };
+			if (range.limit !== undefined) {
+				next.limit = range.limit - cursor;
+			}
+			rest.push(next);
+		}
+		bodyLine += lines + 1; // segment lines plus the elision marker that follows it
+	}
+	return rest;
+}
+
+// Request fields a resumed partial section keeps besides its line ranges, since they change what is read.
+// Pattern blocks resume at their unshown hunks, which are already just the matching lines and context.
+const RESUMED_FIELDS = ["lineNumbers", "ref", "partialMode"] as const;
+
+/**
+ * Collects the requests that fetch everything a plan left out, in request order. Partial sections
+ * resume at the first line they did not show, read the same way (numbered, at the same revision,
+ * cut from the same end); omitted files repeat their original request.
+ */
+function buildContinuation(plan: PackingPlan, candidates: FileCandidate[]): ReadManyContinuation | undefined {
+	const files: FileRequest[] = [];
+	const omitted = new Set(plan.omittedIndexes);
+	const partials = new Map(plan.partialSections.map((section) => [section.index, section]));
+	for (const candidate of candidates) {
+		const partial = partials.get(candidate.index);
+		if (partial && candidate.segments) {
+			const rest = remainingRanges(candidate.segments, partial.shown);
+			if (rest.length > 0) {
+				const resumed = RESUMED_FIELDS.filter((field) => candidate.request[field] !== undefined).map((field) => [
+					field,
+					candidate.request[field],
+				]);
+				files.push({ ...toFileRequest(candidate.path, rest), ...Object.fromEntries(resumed) });
+			}
+		} else if (partial || omitted.has(candidate.index)) {
+			files.push({ ...candidate.request });
+		}
+	}
+	return files.length > 0 ? { files } : undefined;
+}
+
+/** The body an outline is extracted from, without the line numbers `lineNumbers` added. */
+function outlineSource(candidate: FileCandidate, body: string): string {
+	return candidate.request.lineNumbers ? body.replace(/^\d+: /gm, "") : body;
+}
+
+/**
+ * Cuts rendered output to the budget by dropping whole sections from the end, for formats whose
+ * output would not parse with a section cut mid-way. Planning keeps to the budget, so this only
+ * drops anything when the continuation notice alone does not fit.
+ */
+function truncateSections(format: OutputFormat, sections: string[], budget: OutputBudget): TruncationResult {
+	const total = measureText(renderSections(format, sections));
+	const fits = (metrics: TextMetrics) => metrics.bytes <= budget.maxBytes && metrics.lines <= budget.maxLines;
+	let kept = sections.length;
+	let content = renderSections(format, sections);
+	while (kept > 0 && !fits(measureText(content))) {
+		kept -= 1;
+		content = renderSections(format, sections.slice(0, kept));
+	}
+	const output = measureText(content);
+	const truncated = kept < sections.length;
+	return {
+		content,
+		truncated,
+		truncatedBy: !truncated ? null : total.lines > budget.maxLines ? "lines" : "bytes",
+		totalLines: total.lines,
+		totalBytes: total.bytes,
+		outputLines: output.lines,
+		outputBytes: output.bytes,
+		lastLinePartial: false,
+		firstLineExceedsLimit: false,
+		maxLines: budget.maxLines,
+		maxBytes: budget.maxBytes,
+	};
+}
+
+/**
+ * Renders the outline block of an omitted text file, with file line numbers for follow-up reads.
+ * Undefined when the file has no recognizable structure.
+ */
+function buildOutlineBlock(candidate: FileCandidate, format: OutputFormat): string | undefined {
+	// Pattern bodies hold numbered hunks, not the file's own lines.
+	if (!candidate.body || !candidate.segments || candidate.request.pattern !== undefined) {
+		return undefined;
+	}
+	// Only the file's own lines are outlined: not the read tool's trailing notice, whose brackets read
+	// as a config section, nor the elision markers between ranges.
+	const fileLines = candidate.segments.reduce((total, segment) => total + segment.lines + 1, -1);
+	const source = outlineSource(candidate, candidate.body).split("\n").slice(0, Math.max(0, fileLines));
+	const lines = extractOutline(candidate.path, source.join("\n")).flatMap(({ bodyLine, text }) => {
+		const [range] = shownRanges(candidate, [{ start: bodyLine, end: bodyLine + 1 }]) ?? [];
+		return range ? [`${range.offset}: ${text}`] : [];
+	});
+	if (lines.length === 0) {
+		return undefined;
+	}
+	// Bodies past the read tool's page, or reads of only some lines, leave part of the file unlisted.
+	const [first] = candidate.segments;
+	const wholeFile =
+		candidate.segments.length === 1 && first.range.offset === 1 && countLines(candidate.body) === first.lines;
+	const coverage = wholeFile ? [] : [formatOutlineCoverage(formatLineSpans(fullRanges(candidate) ?? []))];
+	const body = [OUTLINE_NOTICE, ...coverage, ...lines].join("\n");
+	return format.formatOutline(candidate.path, body, candidate.index + 1);
+}
+
+function outlineFor(
+	candidates: FileCandidate[],
+	index: number,
+	format: OutputFormat,
+	cache: OutlineCache,
+): { text: string; metrics: TextMetrics } | undefined {
+	if (!cache.has(index)) {
+		const text = buildOutlineBlock(candidates[index], format);
+		cache.set(index, text === undefined ? undefined : { text, metrics: measureText(text) });
+	}
+	return cache.get(index);
+}
+
+function formatContinuationNotice(continuation: ReadManyContinuation): string {
+	return `[Output budget reached; ${continuation.files.length} file(s) omitted or partial. ${CONTINUATION_HINT}${JSON.stringify(continuation)}]`;
+}
+
+/** What a call renders besides full and partial blocks: the continuation cursor and outline blocks. */
+interface SectionLayout {
+	plan: PackingPlan;
+	switchedForCoverage: boolean;
+	continuation?: ReadManyContinuation;
+	outlines: Map<number, { text: string; metrics: TextMetrics }>;
+}
+
+/**
+ * Plans which blocks fill the budget, reserving room for the continuation notice, then picks the
+ * outlines of omitted files that fit in what is left. Plans size their partial block after the
+ * outlines of the other omitted files, so those usually fit.
+ */
+function layOutSections(
+	candidates: FileCandidate[],
+	sectionBudget: OutputBudget,
+	format: OutputFormat,
+	strategy: PackingStrategyOption,
+): SectionLayout {
+	const partialCache: PartialCache = new Map();
+	const outlineCache: OutlineCache = new Map();
+	const caches = [partialCache, outlineCache] as const;
+	let { plan, switchedForCoverage } = choosePlan(candidates, sectionBudget, format, strategy, ...caches);
+	let continuation = buildContinuation(plan, candidates);
+	// Re-plan with room reserved for the continuation notice so it is never cut off. The new plan's
+	// notice can be longer (a partial block's ranges, another file's options), so the room grows until it fits.
+	let noticeRoom: TextMetrics = { bytes: 0, lines: 0 };
+	for (let attempt = 0; continuation && attempt < CONTINUATION_REPLANS; attempt++) {
+		const notice = measureText(format.formatNotice(formatContinuationNotice(continuation)));
+		if (notice.bytes <= noticeRoom.bytes && notice.lines <= noticeRoom.lines) {
+			break;
+		}
+		noticeRoom = { bytes: Math.max(noticeRoom.bytes, notice.bytes), lines: Math.max(noticeRoom.lines, notice.lines) };
+		const separator = measureSeparator(format.separator);
+		const reserved: PackingState = { usedBytes: 0, usedLines: 0, sectionCount: 0, separator };
+		addSection(reserved, noticeRoom);
+		({ plan, switchedForCoverage } = choosePlan(
+			candidates,
+			{
+				maxBytes: Math.max(1, sectionBudget.maxBytes - reserved.usedBytes - separator.bytes),
+				maxLines: Math.max(1, sectionBudget.maxLines - reserved.usedLines - separator.lines),
+			},
+			format,
+			strategy,
+			...caches,
+		));
+		continuation = buildContinuation(plan, candidates);
+	}
+
+	// Omitted files get an outline block when it fits in what the plan and the notice leave over.
+	const leftover: PackingState = {
+		usedBytes: plan.usedBytes,
+		usedLines: plan.usedLines,
+		sectionCount: plan.sectionCount,
+		separator: measureSeparator(format.separator),
+	};
+	if (continuation) {
+		addSection(leftover, measureText(format.formatNotice(formatContinuationNotice(continuation))));
+	}
+	const outlines = new Map<number, { text: string; metrics: TextMetrics }>();
+	for (const index of plan.omittedIndexes) {
+		const outline = outlineFor(candidates, index, format, outlineCache);
+		if (outline && canFitSection(leftover, outline.metrics, sectionBudget)) {
+			addSection(leftover, outline.metrics);
+			outlines.set(index, outline);
+		}
+	}
+	return { plan, switchedForCoverage, continuation, outlines };
+}
+
+/**
+ * Indexes of windowed reads a layout packs in full, and so shows with their read tool notice, whose
+ * line count only a full read gets right.
+ */
+function shownWindowedReads(outcomes: EntryOutcome[], layout: SectionLayout): number[] {
+	return outcomes
+		.map((outcome) => outcome.candidate)
+		.filter((candidate) => candidate.windowed && layout.plan.fullIncluded.has(candidate.index))
+		.map((candidate) => candidate.index);
+}
+
+/**
+ * Creates the read_many tool. With a session `cache`, reads the session already received
+ * unchanged are answered with a one-line notice, and reads packed in full are recorded.
+ */
+export function createReadManyTool(
+	readToolFactory: typeof createReadTool = createReadTool,
+	options: ReadManyOptions = {},
+	cache?: ReadCache,
+): ToolDefinition {
+	const defaultBudget = resolveBudget({}, options);
+	const maxFiles = clampLimit(options.maxFiles, DEFAULT_MAX_FILES, HARD_MAX_FILES);
+	const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY));
+	const ceiling = resolveBudgetCeiling(options);
+
 	return {
 		name: "read_many",
 		label: "read_many",
-		description: `Read multiple files in one call with per-file offset/limit. Combined output uses per-file heredoc blocks (DICT_N_HASH); image attachments are summarized in text. Under combined output limits (${DEFAULT_MAX_LINES} lines / ${formatSize(DEFAULT_MAX_BYTES)}), packing is adaptive: strict request-order by default, switching to smallest-first only when it includes more complete successful files, while rendered section order stays original.`,
-		parameters: ReadManySchema,
+		description: `Read multiple files in one call with per-file offset/limit or several line ranges per file; globs and directories expand to sorted, .gitignore-aware text file matches. Combined output uses per-file heredoc blocks (DICT_N_HASH) by default, or xml/markdown/json via format; images come back as image attachments after the text, within an image budget (maxImages/maxImageBytes), and are summarized in text beyond it. When files are omitted or cut, the output ends with a continueFrom cursor to fetch the rest. Under combined output limits (default ${defaultBudget.maxLines} lines / ${formatSize(defaultBudget.maxBytes)}, adjustable via maxLines/maxBytes up to ${ceiling.maxLines} lines / ${formatSize(ceiling.maxBytes)}), packing is adaptive: strict request-order by default, switching to smallest-first only when it includes more complete successful files, while rendered section order stays original. Setting priority or required on any entry switches to optimal packing, which maximizes the total priority of complete files and never drops a required file for optional ones. Set strategy to pin one; fair-share represents every file, cutting oversized ones to proportional partial blocks. partialMode keeps the head (default), tail or head+tail of a cut file. pattern (per entry or for the call) turns a block into numbered matching lines with context lines around each match. lineNumbers prefixes every body line with its file line number. ref reads a file at a git revision; an entry with changed: {base} expands to the files changed since the branch left base, showing just the changed hunks with context (or whole files with mode full). An entry's symbol reads just that TS/JS declaration, JSDoc included, without guessing line numbers. Omitted files may come back as outline blocks (exports, headings or top-level keys with line numbers) for a targeted offset/limit read.${cache ? " Files this session already received unchanged come back as a one-line notice; set force to re-read them." : ""}`,
+		parameters: createReadManySchema(maxFiles),
+		renderCall: renderReadManyCall,
+		renderResult: renderReadManyResult,
 
 		async execute(
 			toolCallId: string,
 			params: ReadManyInput,
 			signal: AbortSignal | undefined,
-			_onUpdate: unknown,
+			onUpdate: AgentToolUpdateCallback<ReadManyProgressDetails> | undefined,
 			ctx: { cwd: string },
 		) {
-			const readTool = readToolFactory(ctx.cwd);
-			const fileDetails: ReadManyFileDetail[] = [];
-			const candidates: FileCandidate[] = [];
+			const budget = resolveBudget({ maxBytes: params.maxBytes, maxLines: params.maxLines }, options);
+			const format = OUTPUT_FORMATS[params.format ?? options.format ?? "heredoc"];
+			const requests = [...(params.continueFrom?.files ?? []), ...(params.files ?? [])].map((request) =>
+				withCallDefaults(request, params),
+			);
+			if (requests.length === 0) {
+				throw new Error("read_many requires at least one entry in files or continueFrom.files");
+			}
+			if (requests.length > maxFiles) {
+				throw new Error(`read_many accepts at most ${maxFiles} entries per call (got ${requests.length})`);
+			}
+			const projectPolicy = await loadProjectPolicy(ctx.cwd);
+			const policies: PolicySource[] = [
+				...(options.policy ? [{ policy: options.policy, source: "extension options" }] : []),
+				...(projectPolicy ? [projectPolicy] : []),
+			];
+			const redact = policies.some(({ policy }) => policy.redactSecrets);
+			const errorHints = createErrorHints(ctx.cwd, policies);
+			const expansion = await expandFileEntries(requests, ctx.cwd, maxFiles);
 
-			for (let i = 0; i < params.files.length; i++) {
-				if (signal?.aborted) {
-					throw new Error("Operation aborted");
+			const progress: ReadManyProgress = {
+				totalCount: expansion.entries.length,
+				doneCount: 0,
+				successCount: 0,
+				errorCount: 0,
+				bytes: 0,
+				lines: 0,
+				lastPath: "",
+			};
+			const gitOperations = new Map<string, ReadOperations>();
+			/**
+			 * Builds the reader of one entry, with operations of its own so what it loads (and whether
+			 * a window clipped it) is known per entry. Working tree reads load at most `windowBytes`.
+			 */
+			const readerFor = (
+				ref: string | undefined,
+				windowBytes: number,
+			): { reader: EntryReader; clipped: () => boolean } => {
+				if (ref === undefined) {
+					const { operations, loaded, clipped } = createWindowedReadOperations(windowBytes);
+					const readTool = readToolFactory(ctx.cwd, { operations });
+					return { reader: { readTool, loaded, detectBinary: detectBinaryFile }, clipped };
 				}
-
-				const request = params.files[i];
-				const input: ReadToolInput = {
-					path: request.path,
-					offset: request.offset,
-					limit: request.limit,
+				let git = gitOperations.get(ref);
+				if (!git) {
+					git = createGitReadOperations(ref, ctx.cwd);
+					gitOperations.set(ref, git);
+				}
+				const blobs = git;
+				const { operations, loaded, clipped } = captureLoads(blobs);
+				const reader: EntryReader = {
+					readTool: readToolFactory(ctx.cwd, { operations }),
+					loaded,
+					// Missing blobs are left to the read, which reports a proper per-file error.
+					detectBinary: (absolutePath) =>
+						blobs.readFile(absolutePath).then(
+							(content) => detectBinary(content, content.length),
+							() => undefined,
+						),
 				};
-
-				try {
-					const result = await readTool.execute(`${toolCallId}:${i}`, input, signal, undefined);
-					const details = result.details as ReadToolDetails | undefined;
-
-					const textChunks = result.content
-						.filter((item): item is { type: "text"; text: string } => item.type === "text")
-						.map((item) => item.text);
-					const imageCount = result.content.filter((item) => item.type === "image").length;
-
-					let body = textChunks.join("\n");
-					if (!body) {
-						body =
-							imageCount > 0
-								? `[${imageCount} image attachment(s) omitted; use read on this file for image payload.]`
-								: "[No text content returned]";
-					} else if (imageCount > 0) {
-						body += `\n[${imageCount} image attachment(s) omitted; use read on this file for image payload.]`;
+				return { reader, clipped };
+			};
+			const defaultPartialMode = params.partialMode ?? options.partialMode ?? "head";
+			// Plain reads page up to the call's budget, and never stop short of the read tool's own page.
+			const pageLimit: OutputBudget = {
+				maxBytes: Math.max(budget.maxBytes, DEFAULT_MAX_BYTES),
+				maxLines: Math.max(budget.maxLines, DEFAULT_MAX_LINES),
+			};
+			const fingerprints = new Map<number, ReadFingerprint>();
+			/**
+			 * Reads entry `i` into its outcome. With `windowed`, large plain reads load only the start of
+			 * the file; they stay marked `windowed` until a layout shows what needs the whole file.
+			 */
+			const readOutcome = async (i: number, windowed: boolean): Promise<EntryOutcome> => {
+				const entry = await applyPathPolicy(expansion.entries[i], policies, ctx.cwd);
+				const { request } = entry;
+				const windowBytes = READ_WINDOW_PAGES * pageLimit.maxBytes;
+				const { reader, clipped } = readerFor(
+					request.ref,
+					windowed && isWindowable(request, defaultPartialMode) ? windowBytes : Infinity,
+				);
+				let outcome = await readEntry(
+					reader,
+					`${toolCallId}:${i}`,
+					i,
+					entry,
+					ctx.cwd,
+					format,
+					defaultPartialMode,
+					pageLimit,
+					signal,
+				);
+				if (clipped()) {
+					const { truncation } = outcome.detail;
+					// A window only stands in for a file when the read tool cut it at its own limits, and
+					// a read the session holds needs the whole file to compare.
+					if (
+						!outcome.candidate.ok ||
+						!truncation?.truncated ||
+						truncation.firstLineExceedsLimit ||
+						cache?.entries.has(readCacheKey(resolveInputPath(request.path, ctx.cwd), request))
+					) {
+						return readOutcome(i, false);
 					}
-
-					const fullText = formatContentBlock(request.path, body, i + 1);
-					candidates.push({
-						index: i,
-						path: request.path,
-						ok: true,
-						fullText,
-						fullMetrics: measureText(fullText),
-						body,
-					});
-
-					fileDetails.push({
-						path: request.path,
-						ok: true,
-						imageCount,
-						truncation: details?.truncation,
-					});
-				} catch (error) {
-					const message = error instanceof Error ? error.message : String(error);
-					const fullText = formatContentBlock(request.path, `[Error: ${message}]`, i + 1);
-					candidates.push({
-						index: i,
-						path: request.path,
-						ok: false,
-						fullText,
-						fullMetrics: measureText(fullText),
-					});
-
-					fileDetails.push({
-						path: request.path,
-						ok: false,
-						error: message,
-					});
-
-					if (params.stopOnError) {
-						break;
+					outcome = {
+						candidate: { ...outcome.candidate, windowed: true },
+						detail: { ...outcome.detail, truncation: undefined },
+					};
+				}
+				if (!outcome.candidate.ok) {
+					outcome = await explainError(outcome, errorHints, format);
+				}
+				if (redact) {
+					outcome = redactOutcome(outcome, format);
+				}
+				if (params.metadata ?? options.metadata ?? false) {
+					outcome = await addMetadata(outcome, ctx.cwd, format);
+				}
+				fingerprints.delete(i);
+				if (cache) {
+					const force = request.force ?? params.force ?? false;
+					const deduped = await dedupeOutcome(outcome, cache, ctx.cwd, format, force);
+					outcome = deduped.outcome;
+					if (deduped.fingerprint) {
+						fingerprints.set(i, deduped.fingerprint);
 					}
 				}
+				return outcome;
+			};
+			const outcomes = await runInRequestOrder(
+				expansion.entries.length,
+				concurrency,
+				async (i) => {
+					const outcome = await readOutcome(i, true);
+					if (onUpdate) {
+						progress.doneCount += 1;
+						progress.successCount += outcome.candidate.ok ? 1 : 0;
+						progress.errorCount += outcome.candidate.ok ? 0 : 1;
+						progress.bytes += outcome.candidate.fullMetrics.bytes;
+						progress.lines += outcome.candidate.fullMetrics.lines;
+						progress.lastPath = outcome.candidate.path;
+						onUpdate({
+							content: [{ type: "text", text: formatProgress(progress) }],
+							details: { progress: { ...progress } },
+						});
+					}
+					return outcome;
+				},
+				(outcome) => params.stopOnError === true && !outcome.candidate.ok,
+				signal,
+			);
+			if (signal?.aborted) {
+				throw new Error("Operation aborted");
 			}
 
-			const requestOrder = candidates.map((_, i) => i);
-			const smallestFirstOrder = [...requestOrder].sort((a, b) => {
-				const sizeDelta = candidates[a].fullMetrics.bytes - candidates[b].fullMetrics.bytes;
-				if (sizeDelta !== 0) {
-					return sizeDelta;
-				}
-				const lineDelta = candidates[a].fullMetrics.lines - candidates[b].fullMetrics.lines;
-				if (lineDelta !== 0) {
-					return lineDelta;
-				}
-				return a - b;
-			});
+			const imageBudget: ImageBudget = {
+				maxImages: params.maxImages ?? options.imageBudget?.maxImages ?? DEFAULT_MAX_IMAGES,
+				maxBytes: params.maxImageBytes ?? options.imageBudget?.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES,
+			};
 
-			const requestPlan = buildPlan("request-order", requestOrder, candidates);
-			const smallestPlan = buildPlan("smallest-first", smallestFirstOrder, candidates);
-			const switchedForCoverage = smallestPlan.fullSuccessCount > requestPlan.fullSuccessCount;
-			const plan = switchedForCoverage ? smallestPlan : requestPlan;
+			// Sections are packed inside the format's frame (e.g. JSON array brackets).
+			const frame = measureFrame(format);
+			const sectionBudget: OutputBudget = {
+				maxBytes: Math.max(1, budget.maxBytes - frame.bytes),
+				maxLines: Math.max(1, budget.maxLines - frame.lines),
+			};
+			const strategy = params.strategy ?? options.strategy ?? "auto";
+			let attached = attachImages(outcomes, imageBudget, format);
+			let layout = layOutSections(
+				attached.map((outcome) => outcome.candidate),
+				sectionBudget,
+				format,
+				strategy,
+			);
+			// Windowed reads stand in for whole files only while their line counts stay out of sight.
+			for (
+				let stale = shownWindowedReads(attached, layout);
+				stale.length > 0;
+				stale = shownWindowedReads(attached, layout)
+			) {
+				await runInRequestOrder(
+					stale.length,
+					concurrency,
+					async (k) => {
+						outcomes[stale[k]] = await readOutcome(stale[k], false);
+					},
+					() => false,
+					signal,
+				);
+				if (signal?.aborted) {
+					throw new Error("Operation aborted");
+				}
+				attached = attachImages(outcomes, imageBudget, format);
+				layout = layOutSections(
+					attached.map((outcome) => outcome.candidate),
+					sectionBudget,
+					format,
+					strategy,
+				);
+			}
+			const candidates = attached.map((outcome) => outcome.candidate);
+			const fileDetails = attached.map((outcome) => outcome.detail);
+			const { plan, switchedForCoverage, continuation, outlines } = layout;
 
+			const partials = new Map(plan.partialSections.map((section) => [section.index, section]));
 			const sections: string[] = [];
 			for (let i = 0; i < candidates.length; i++) {
+				const partial = partials.get(i);
+				const outline = outlines.get(i);
 				if (plan.fullIncluded.has(i)) {
 					sections.push(candidates[i].fullText);
-				} else if (plan.partialSection?.index === i) {
-					sections.push(plan.partialSection.text);
+				} else if (partial) {
+					sections.push(partial.text);
+				} else if (outline) {
+					sections.push(outline.text);
 				}
 			}
+			if (continuation) {
+				sections.push(format.formatNotice(formatContinuationNotice(continuation)));
+			}
 
-			const plannedOutputText = sections.join("\n\n");
-			const outputTruncation = truncateHead(plannedOutputText, {
-				maxLines: DEFAULT_MAX_LINES,
-				maxBytes: DEFAULT_MAX_BYTES,
-			});
+			for (const candidate of candidates) {
+				const detail = fileDetails[candidate.index];
+				const partial = partials.get(candidate.index);
+				const outline = outlines.get(candidate.index);
+				if (plan.fullIncluded.has(candidate.index)) {
+					detail.inclusion = "full";
+					detail.includedBytes = candidate.fullMetrics.bytes;
+					detail.includedLines = candidate.fullMetrics.lines;
+				} else if (partial) {
+					detail.inclusion = "partial";
+					detail.includedBytes = partial.metrics.bytes;
+					detail.includedLines = partial.metrics.lines;
+				} else if (outline) {
+					detail.inclusion = "outline";
+					detail.includedBytes = outline.metrics.bytes;
+					detail.includedLines = outline.metrics.lines;
+				} else {
+					detail.inclusion = "omitted";
+					detail.includedBytes = 0;
+					detail.includedLines = 0;
+				}
+				if (detail.inclusion !== "full") {
+					// Images only follow blocks packed in full.
+					detail.attachedImageCount = undefined;
+				}
+				if (candidate.metadata) {
+					const { language, stats } = candidate.metadata;
+					detail.totalLines = stats?.totalLines;
+					detail.shownRanges =
+						detail.inclusion === "full"
+							? fullRanges(candidate)
+							: partial
+								? shownRanges(candidate, partial.shown)
+								: undefined;
+					detail.size = stats?.size;
+					detail.mtime = stats?.mtime;
+					detail.language = language;
+					detail.contentHash = stats?.hash;
+				}
+			}
+
+			const outputTruncation = format.cutsWholeSections
+				? truncateSections(format, sections, budget)
+				: truncateHead(renderSections(format, sections), budget);
 			const outputText = outputTruncation.content;
 
+			if (cache && !outputTruncation.truncated) {
+				for (const [index, { key, hash, mtimeMs }] of fingerprints) {
+					if (plan.fullIncluded.has(index)) {
+						cache.entries.set(key, { hash, mtimeMs, turn: cache.turn, tool: "read_many" });
+					}
+				}
+			}
+
 			const details: ReadManyDetails = {
 				processedCount: fileDetails.length,
 				successCount: fileDetails.filter((f) => f.ok).length,
 				errorCount: fileDetails.filter((f) => !f.ok).length,
 				files: fileDetails,
+				expansion: expansion.expanded
+					? { expandedCount: expansion.entries.length, droppedCount: expansion.droppedCount }
+					: undefined,
 				packing: {
+					budget,
+					format: format.name,
 					strategy: plan.strategy,
 					switchedForCoverage,
 					fullIncludedCount: plan.fullCount,
 					fullIncludedSuccessCount: plan.fullSuccessCount,
 					partialIncludedPath:
-						plan.partialSection !== undefined ? candidates[plan.partialSection.index]?.path : undefined,
+						plan.partialSections.length > 0 ? candidates[plan.partialSections[0].index].path : undefined,
+					partials: plan.partialSections.map((section) => ({
+						path: candidates[section.index].path,
+						ranges: shownRanges(candidates[section.index], section.shown),
+					})),
 					omittedPaths: plan.omittedIndexes.map((index) => candidates[index].path),
+					continuation,
 				},
 				combinedTruncation: outputTruncation.truncated ? outputTruncation : undefined,
 			};
 
+			// Images follow the text, each behind a label repeating the number its block names.
+			const images = candidates.flatMap((candidate) =>
+				plan.fullIncluded.has(candidate.index)
+					? (candidate.attachments ?? []).flatMap(({ number, image }) => [
+							{ type: "text", text: `[Image attachment #${number}: ${candidate.path}]` },
+							image,
+						])
+					: [],
+			);
 			return {
-				content: [{ type: "text", text: outputText }],
+				content: [{ type: "text", text: outputText }, ...images],
 				details,
 			};
 		},
@@ -466,8 +2498,54 @@ export const __test = {
 	formatContentBlock,
 	buildPartialSection,
 	buildPlan,
+	selectOptimalSubset,
+	buildContinuation,
+	mergeRanges,
+	runInRequestOrder,
+	resolveBudget,
 };
 
-export default function (pi: ExtensionAPI) {
-	pi.registerTool(createReadManyTool());
+export function createReadManyExtension(options: ReadManyOptions = {}) {
+	return function (pi: ExtensionAPI) {
+		const cache = options.dedupe === false ? undefined : createReadCache();
+		pi.registerTool(createReadManyTool(createReadTool, options, cache));
+		if (!cache) {
+			return;
+		}
+
+		// Earlier reads only count while they are still in the model's context; any event that
+		// replaces or rewrites the context starts over.
+		const reset = () => cache.entries.clear();
+		pi.on("session_start", reset);
+		pi.on("session_switch", reset);
+		pi.on("session_fork", reset);
+		pi.on("session_tree", reset);
+		pi.on("session_compact", reset);
+		pi.on("turn_start", () => {
+			cache.turn += 1;
+		});
+		pi.on("tool_result", async (event, ctx) => {
+			if (event.toolName !== "read" || event.isError || event.content.some((item) => item.type === "image")) {
+				return;
+			}
+			const { path, offset, limit } = event.input as ReadToolInput;
+			const absolutePath = resolveInputPath(path, ctx.cwd);
+			const mtimeMs = await readMtime(absolutePath);
+			if (mtimeMs === undefined) {
+				return;
+			}
+			const text = event.content
+				.filter((item): item is { type: "text"; text: string } => item.type === "text")
+				.map((item) => item.text)
+				.join("\n");
+			cache.entries.set(readCacheKey(absolutePath, { offset, limit }), {
+				hash: hashContent(text),
+				mtimeMs,
+				turn: cache.turn,
+				tool: "read",
+			});
+		});
+	};
 }
+
+export default createReadManyExtension();
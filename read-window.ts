@@ -0,0 +1,77 @@
+import { constants } from "node:fs";
+import { access, open } from "node:fs/promises";
+import type { ReadOperations } from "@mariozechner/pi-coding-agent";
+import { detectImageMimeType } from "./binary.js";
+
+// Leading bytes checked for image magic numbers.
+const IMAGE_SNIFF_BYTES = 16;
+
+/** Read operations that load only the start of large files, whether they cut any, and what they last loaded. */
+export interface WindowedReadOperations {
+	operations: ReadOperations;
+	clipped: () => boolean;
+	/** Content the last `readFile` returned, so later pages of the file can be split from memory. */
+	loaded: () => Buffer | undefined;
+}
+
+async function readHead(absolutePath: string, length: number): Promise<Buffer> {
+	const handle = await open(absolutePath, "r");
+	try {
+		const head = Buffer.alloc(length);
+		const { bytesRead } = await handle.read(head, 0, length, 0);
+		return head.subarray(0, bytesRead);
+	} finally {
+		await handle.close();
+	}
+}
+
+/** Wraps `operations` to remember the content they last loaded; they never clip. */
+export function captureLoads(operations: ReadOperations): WindowedReadOperations {
+	let loaded: Buffer | undefined;
+	return {
+		operations: {
+			...operations,
+			readFile: async (absolutePath) => {
+				loaded = await operations.readFile(absolutePath);
+				return loaded;
+			},
+		},
+		clipped: () => false,
+		loaded: () => loaded,
+	};
+}
+
+/**
+ * File operations for Pi's read tool that stat each file first and load at most `windowBytes` of
+ * it, cut back to the last complete line. Smaller files and images load whole; so does every file
+ * with an infinite window.
+ */
+export function createWindowedReadOperations(windowBytes: number): WindowedReadOperations {
+	let clipped = false;
+	const loads = captureLoads({
+		readFile: async (absolutePath) => {
+			const handle = await open(absolutePath, "r");
+			try {
+				const { size } = await handle.stat();
+				if (size <= windowBytes) {
+					return await handle.readFile();
+				}
+				const window = Buffer.alloc(windowBytes);
+				const { bytesRead } = await handle.read(window, 0, windowBytes, 0);
+				if (detectImageMimeType(window) !== undefined) {
+					// Reads at an explicit position leave the handle at the start, so this loads the whole file.
+					return await handle.readFile();
+				}
+				clipped = true;
+				// A window without any line break keeps its cut line; reads treat it as too long anyway.
+				const lineEnd = window.subarray(0, bytesRead).lastIndexOf(10);
+				return window.subarray(0, lineEnd === -1 ? bytesRead : lineEnd);
+			} finally {
+				await handle.close();
+			}
+		},
+		access: (absolutePath) => access(absolutePath, constants.R_OK),
+		detectImageMimeType: async (absolutePath) => detectImageMimeType(await readHead(absolutePath, IMAGE_SNIFF_BYTES)),
+	});
+	return { ...loads, clipped: () => clipped };
+}
@@ -0,0 +1,133 @@
+// Replaces each masked secret; key blocks keep their BEGIN/END lines and mask every line between.
+export const REDACTION_MARKER = "[REDACTED]";
+
+// PEM private key blocks of any kind (RSA, EC, OPENSSH, ENCRYPTED, ...).
+const PRIVATE_KEY_BLOCK = /(-----BEGIN [A-Z ]*PRIVATE KEY-----)([\s\S]*?)(-----END [A-Z ]*PRIVATE KEY-----)/g;
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z ]*PRIVATE KEY-----/;
+const PRIVATE_KEY_END = /-----END [A-Z ]*PRIVATE KEY-----/;
+
+// A `lineNumbers` or pattern read's `N: ` prefix, kept on masked lines.
+const LINE_NUMBER_PREFIX = /^\d+[:-] /;
+
+// Unbroken base64 lines, as key files wrap their key material, long enough not to be ordinary words.
+const BASE64_LINE = /^(\d+[:-] )?[ \t]*([A-Za-z0-9+/]{40,}={0,2})[ \t]*$/;
+
+// Credentials with a recognizable shape, wherever they appear.
+const TOKEN_PATTERNS = [
+	/\bAKIA[0-9A-Z]{16}\b/g, // AWS access key ID
+	/\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub tokens
+	/\bgithub_pat_[A-Za-z0-9_]{40,}\b/g,
+	/\bxox[abprs]-[A-Za-z0-9-]{10,}/g, // Slack
+	/\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g, // OpenAI and Anthropic API keys
+	/\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g, // Stripe
+	/\bAIza[0-9A-Za-z_-]{35}\b/g, // Google API key
+	/\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, // JWT
+];
+
+// Names that mark the value assigned to them as a secret.
+const SECRET_NAME = String.raw`[A-Za-z0-9_.-]*(?:api[_-]?key|access[_-]?key|private[_-]?key|secret|token|passw(?:or)?d|credentials?)[A-Za-z0-9_.-]*`;
+// Quoted values assigned to a secret name anywhere on a line: `apiKey: "..."`, `TOKEN = '...'`.
+const QUOTED_ASSIGNMENT = new RegExp(String.raw`(${SECRET_NAME}["']?[ \t]*[:=][ \t]*)(["'])([^"'\s]{8,})\2`, "gi");
+// Unquoted values in .env, YAML and INI lines, optionally behind a pattern read's `N: ` number.
+const LINE_ASSIGNMENT = new RegExp(
+	String.raw`^((?:\d+[:-] )?[ \t]*(?:export[ \t]+)?${SECRET_NAME}[ \t]*[:=][ \t]*)([A-Za-z0-9_\-+/=.~@]{8,})[ \t]*$`,
+	"gim",
+);
+
+// Secret values mix in digits; names and placeholders such as `process.env.TOKEN` usually do not.
+function looksSecret(value: string): boolean {
+	return /\d/.test(value) && /[A-Za-z]/.test(value);
+}
+
+function lastIndexMatching(lines: string[], pattern: RegExp): number {
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (pattern.test(lines[i])) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function maskLine(line: string): string {
+	return `${LINE_NUMBER_PREFIX.exec(line)?.[0] ?? ""}${REDACTION_MARKER}`;
+}
+
+/**
+ * Masks key material whose block the read cut off: lines after a BEGIN line with no END line in the
+ * text, lines before an END line with no BEGIN line, and runs of base64 lines with neither (reads
+ * that start and stop inside a key). Complete blocks are masked already.
+ */
+function maskPartialKeyBlocks(text: string): { text: string; count: number } {
+	const lines = text.split("\n");
+	let count = 0;
+	const firstBegin = lines.findIndex((line) => PRIVATE_KEY_BEGIN.test(line));
+	const firstEnd = lines.findIndex((line) => PRIVATE_KEY_END.test(line));
+	if (firstEnd !== -1 && (firstBegin === -1 || firstEnd < firstBegin)) {
+		count += 1;
+		for (let i = 0; i < firstEnd; i++) {
+			lines[i] = lines[i] ? maskLine(lines[i]) : lines[i];
+		}
+	}
+	const lastBegin = lastIndexMatching(lines, PRIVATE_KEY_BEGIN);
+	const lastEnd = lastIndexMatching(lines, PRIVATE_KEY_END);
+	if (lastBegin !== -1 && lastBegin > lastEnd) {
+		count += 1;
+		for (let i = lastBegin + 1; i < lines.length; i++) {
+			lines[i] = lines[i] ? maskLine(lines[i]) : lines[i];
+		}
+	}
+	let inRun = false;
+	for (let i = 0; i < lines.length; i++) {
+		const value = BASE64_LINE.exec(lines[i])?.[2];
+		const isKeyLine = value !== undefined && /[A-Z]/.test(value) && /[a-z]/.test(value) && /\d/.test(value);
+		if (isKeyLine) {
+			lines[i] = maskLine(lines[i]);
+			count += inRun ? 0 : 1;
+		}
+		inRun = isKeyLine;
+	}
+	return { text: lines.join("\n"), count };
+}
+
+/**
+ * Masks likely secrets in a file body: private key blocks (including the parts of blocks a read cut
+ * off), well-known token formats and values assigned to secret-looking names. Line count is
+ * preserved so line mappings stay valid.
+ */
+export function redactSecrets(text: string): { text: string; count: number } {
+	let count = 0;
+	let redacted = text.replace(PRIVATE_KEY_BLOCK, (_match, begin: string, body: string, end: string) => {
+		count += 1;
+		const lines = body.split("\n");
+		if (lines.length === 1) {
+			return `${begin}${REDACTION_MARKER}${end}`;
+		}
+		// The first and last pieces are the rest of the BEGIN line and the start of the END line.
+		const masked = lines.map((line, i) => (i === 0 || i === lines.length - 1 ? line : maskLine(line)));
+		return `${begin}${masked.join("\n")}${end}`;
+	});
+	const partial = maskPartialKeyBlocks(redacted);
+	redacted = partial.text;
+	count += partial.count;
+	for (const pattern of TOKEN_PATTERNS) {
+		redacted = redacted.replace(pattern, () => {
+			count += 1;
+			return REDACTION_MARKER;
+		});
+	}
+	redacted = redacted.replace(QUOTED_ASSIGNMENT, (match, prefix: string, quote: string, value: string) => {
+		if (!looksSecret(value)) {
+			return match;
+		}
+		count += 1;
+		return `${prefix}${quote}${REDACTION_MARKER}${quote}`;
+	});
+	redacted = redacted.replace(LINE_ASSIGNMENT, (match, prefix: string, value: string) => {
+		if (!looksSecret(value)) {
+			return match;
+		}
+		count += 1;
+		return `${prefix}${REDACTION_MARKER}`;
+	});
+	return { text: redacted, count };
+}
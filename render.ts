@@ -0,0 +1,172 @@
+import type { AgentToolResult, Theme, ThemeColor, ToolRenderResultOptions } from "@mariozechner/pi-coding-agent";
+import { formatSize } from "@mariozechner/pi-coding-agent";
+import { Text } from "@mariozechner/pi-tui";
+import type {
+	FileRequest,
+	LineRange,
+	ReadManyDetails,
+	ReadManyFileDetail,
+	ReadManyInput,
+	ReadManyProgressDetails,
+} from "./read-many.js";
+
+type FileStatus = "full" | "unchanged" | "partial" | "outline" | "omitted" | "error";
+
+const STATUS_COLORS: Record<FileStatus, ThemeColor> = {
+	full: "success",
+	unchanged: "dim",
+	partial: "warning",
+	outline: "accent",
+	omitted: "muted",
+	error: "error",
+};
+
+function formatRange(range: Partial<LineRange>): string {
+	const start = range.offset !== undefined ? Math.max(1, range.offset) : 1;
+	if (range.limit === undefined) {
+		return range.offset !== undefined ? `${start}-` : "";
+	}
+	return `${start}-${start + range.limit - 1}`;
+}
+
+function formatRequest(request: FileRequest): string {
+	const path = request.ref !== undefined ? `${request.path}@${request.ref}` : request.path;
+	if (request.symbol !== undefined) {
+		return `${path}#${request.symbol}`;
+	}
+	const ranges = request.ranges?.length ? request.ranges : [request];
+	const formatted = ranges.map(formatRange).filter(Boolean);
+	return formatted.length > 0 ? `${path}:${formatted.join(",")}` : path;
+}
+
+function formatChanged(request: FileRequest, theme: Theme): string {
+	return request.changed ? ` ${theme.fg("dim", `(changed since ${request.changed.base})`)}` : "";
+}
+
+function formatPriority(request: FileRequest, theme: Theme): string {
+	if (request.required) {
+		return ` ${theme.fg("dim", "(required)")}`;
+	}
+	return request.priority !== undefined ? ` ${theme.fg("dim", `(priority ${request.priority})`)}` : "";
+}
+
+function formatPattern(pattern: string | undefined, theme: Theme): string {
+	return pattern !== undefined ? ` ${theme.fg("dim", `/${pattern}/`)}` : "";
+}
+
+function formatPath(file: ReadManyFileDetail, theme: Theme): string {
+	if (file.error) {
+		return `${file.path} ${theme.fg("dim", `(${file.error})`)}`;
+	}
+	const notes = [
+		file.matchCount !== undefined ? `${file.matchCount} matches` : undefined,
+		file.redactionCount ? `${file.redactionCount} redacted` : undefined,
+		file.attachedImageCount ? `${file.attachedImageCount} image(s) attached` : undefined,
+		file.binary ? "binary" : undefined,
+	].filter(Boolean);
+	return notes.length > 0 ? `${file.path} ${theme.fg("dim", `(${notes.join(", ")})`)}` : file.path;
+}
+
+function fileStatus(file: ReadManyFileDetail): FileStatus {
+	if (!file.ok) {
+		return "error";
+	}
+	return file.unchangedSince !== undefined && file.inclusion === "full" ? "unchanged" : (file.inclusion ?? "full");
+}
+
+export function renderReadManyCall(args: ReadManyInput, theme: Theme): Text {
+	const continued = args.continueFrom?.files ?? [];
+	const files = args.files ?? [];
+	const count = continued.length + files.length;
+
+	let text = theme.fg("toolTitle", theme.bold("read_many "));
+	text += theme.fg("muted", `${count} ${count === 1 ? "entry" : "entries"}`);
+	if (args.maxBytes !== undefined || args.maxLines !== undefined) {
+		const limits = [
+			args.maxLines !== undefined ? `${args.maxLines} lines` : undefined,
+			args.maxBytes !== undefined ? formatSize(args.maxBytes) : undefined,
+		].filter(Boolean);
+		text += theme.fg("dim", ` (budget ${limits.join(" / ")})`);
+	}
+	text += formatPattern(args.pattern, theme);
+	for (const request of continued) {
+		const suffix = `${formatChanged(request, theme)}${formatPattern(request.pattern, theme)}${formatPriority(request, theme)} ${theme.fg("dim", "(continued)")}`;
+		text += `\n  ${theme.fg("accent", formatRequest(request))}${suffix}`;
+	}
+	for (const request of files) {
+		const suffix = `${formatChanged(request, theme)}${formatPattern(request.pattern, theme)}${formatPriority(request, theme)}`;
+		text += `\n  ${theme.fg("accent", formatRequest(request))}${suffix}`;
+	}
+	return new Text(text, 0, 0);
+}
+
+function renderFileTable(files: ReadManyFileDetail[], theme: Theme): string[] {
+	const rows = files.map((file) => ({
+		status: fileStatus(file),
+		lines: file.includedLines !== undefined ? String(file.includedLines) : "",
+		bytes: file.includedBytes !== undefined ? formatSize(file.includedBytes) : "",
+		path: formatPath(file, theme),
+	}));
+	const statusWidth = Math.max(...rows.map((row) => row.status.length));
+	const linesWidth = Math.max(5, ...rows.map((row) => row.lines.length));
+	const bytesWidth = Math.max(5, ...rows.map((row) => row.bytes.length));
+
+	const header = `${"status".padEnd(statusWidth)}  ${"lines".padStart(linesWidth)}  ${"bytes".padStart(bytesWidth)}  path`;
+	return [
+		theme.fg("dim", header),
+		...rows.map(
+			(row) =>
+				`${theme.fg(STATUS_COLORS[row.status], row.status.padEnd(statusWidth))}  ${row.lines.padStart(linesWidth)}  ${row.bytes.padStart(bytesWidth)}  ${row.path}`,
+		),
+	];
+}
+
+export function renderReadManyResult(
+	result: AgentToolResult<ReadManyDetails | ReadManyProgressDetails | undefined>,
+	options: ToolRenderResultOptions,
+	theme: Theme,
+): Text {
+	const details = result.details;
+
+	if (options.isPartial || !details || "progress" in details) {
+		if (details && "progress" in details) {
+			const { progress } = details;
+			let text = theme.fg("warning", `Reading ${progress.doneCount}/${progress.totalCount} files`);
+			text += theme.fg("muted", ` (${progress.successCount} ok`);
+			if (progress.errorCount > 0) {
+				text += theme.fg("error", `, ${progress.errorCount} failed`);
+			}
+			text += theme.fg("muted", `) · ${formatSize(progress.bytes)} / ${progress.lines} lines`);
+			return new Text(text, 0, 0);
+		}
+		return new Text(theme.fg("warning", "Reading..."), 0, 0);
+	}
+
+	const { packing } = details;
+	let text = theme.fg("success", `${details.successCount} ok`);
+	if (details.errorCount > 0) {
+		text += theme.fg("error", `, ${details.errorCount} failed`);
+	}
+	text += theme.fg("muted", ` · ${packing.strategy}`);
+	if (packing.switchedForCoverage) {
+		text += theme.fg("dim", " (switched for coverage)");
+	}
+	text += theme.fg("muted", ` · budget ${packing.budget.maxLines} lines / ${formatSize(packing.budget.maxBytes)}`);
+	if (packing.continuation) {
+		text += theme.fg("warning", ` · ${packing.continuation.files.length} to continue`);
+	}
+	text += `\n${renderFileTable(details.files, theme).join("\n")}`;
+
+	if (options.expanded) {
+		const output = result.content
+			.filter((item): item is { type: "text"; text: string } => item.type === "text")
+			.map((item) => item.text)
+			.join("\n");
+		text += `\n\n${output
+			.split("\n")
+			.map((line) => theme.fg("toolOutput", line))
+			.join("\n")}`;
+	}
+
+	return new Text(text, 0, 0);
+}
@@ -0,0 +1,195 @@
+/** Body lines `start` (inclusive) to `end` (exclusive) of a declaration, counted from 0. */
+export interface SymbolSpan {
+	start: number;
+	end: number;
+}
+
+// Closest names listed when a symbol is not found.
+const MAX_SUGGESTIONS = 5;
+
+// Named declarations at any indent; the name is the second group.
+const DECLARATION =
+	/^(\s*)(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|const\s+enum|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/;
+// A declaration continues past a line ending in an operator, or onto a line opening with one.
+const CONTINUATION_END = /(?:[=,(|&?:+\-*/]|=>|\bextends|\bimplements)$/;
+const CONTINUATION_START = /^[.?:|&{]/;
+
+interface ScanState {
+	depth: number;
+	mode: "code" | "comment" | "string" | "template";
+	quote: string;
+	// Bracket depth at each open `${` of a template literal, innermost last.
+	templateDepths: number[];
+}
+
+/**
+ * Advances `state` over one line, tracking bracket depth outside comments and string literals.
+ * Returns the line without its comments. Regex literals are not recognized.
+ */
+function scanLine(line: string, state: ScanState): string {
+	let code = "";
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		const next = line[i + 1];
+		if (state.mode === "comment") {
+			if (char === "*" && next === "/") {
+				state.mode = "code";
+				i += 1;
+			}
+			continue;
+		}
+		code += char;
+		if (state.mode === "string" || state.mode === "template") {
+			if (char === "\\") {
+				code += next ?? "";
+				i += 1;
+			} else if (char === (state.mode === "string" ? state.quote : "`")) {
+				state.mode = "code";
+			} else if (state.mode === "template" && char === "$" && next === "{") {
+				state.templateDepths.push(state.depth);
+				state.depth += 1;
+				state.mode = "code";
+				code += next;
+				i += 1;
+			}
+			continue;
+		}
+
+		if (char === "/" && next === "/") {
+			return code.slice(0, -1);
+		}
+		if (char === "/" && next === "*") {
+			code = code.slice(0, -1);
+			state.mode = "comment";
+			i += 1;
+		} else if (char === '"' || char === "'") {
+			state.mode = "string";
+			state.quote = char;
+		} else if (char === "`") {
+			state.mode = "template";
+		} else if ("({[".includes(char)) {
+			state.depth += 1;
+		} else if (")}]".includes(char)) {
+			state.depth -= 1;
+			if (char === "}" && state.templateDepths.at(-1) === state.depth) {
+				state.templateDepths.pop();
+				state.mode = "template";
+			}
+		}
+	}
+	// Quoted strings cannot span lines; an unterminated one is a scan error, not a reason to run on.
+	if (state.mode === "string") {
+		state.mode = "code";
+	}
+	return code;
+}
+
+function nextNonBlank(lines: string[], after: number): number {
+	let next = after + 1;
+	while (next < lines.length && !lines[next].trim()) {
+		next += 1;
+	}
+	return next;
+}
+
+function findDeclarationEnd(lines: string[], start: number): number {
+	const state: ScanState = { depth: 0, mode: "code", quote: "", templateDepths: [] };
+	for (let i = start; i < lines.length; i++) {
+		const code = scanLine(lines[i], state).trim();
+		if (state.depth > 0 || state.mode !== "code" || !code) {
+			continue;
+		}
+		if (code.endsWith(";")) {
+			return i + 1;
+		}
+		const next = lines[nextNonBlank(lines, i)]?.trim() ?? "";
+		if (!CONTINUATION_END.test(code) && !CONTINUATION_START.test(next)) {
+			return i + 1;
+		}
+	}
+	return lines.length;
+}
+
+/** Extends a declaration start over its decorators and the JSDoc or `//` comment right above them. */
+function findLeadingStart(lines: string[], start: number): number {
+	let first = start;
+	while (first > 0 && lines[first - 1].trim().startsWith("@")) {
+		first -= 1;
+	}
+	if (first > 0 && lines[first - 1].trim().endsWith("*/")) {
+		for (let i = first - 1; i >= 0; i--) {
+			const trimmed = lines[i].trim();
+			if (trimmed.startsWith("/*")) {
+				// Plain block comments (license headers, commented-out code) are not documentation.
+				return trimmed.startsWith("/**") ? i : first;
+			}
+			if (i < first - 1 && trimmed.includes("*/")) {
+				return first;
+			}
+		}
+		return first;
+	}
+	while (first > 0 && lines[first - 1].trim().startsWith("//")) {
+		first -= 1;
+	}
+	return first;
+}
+
+function listDeclarations(lines: string[]): Array<{ line: number; indent: number; name: string }> {
+	const declarations: Array<{ line: number; indent: number; name: string }> = [];
+	lines.forEach((text, line) => {
+		const match = text.match(DECLARATION);
+		if (match) {
+			declarations.push({ line, indent: match[1].length, name: match[2] });
+		}
+	});
+	return declarations;
+}
+
+/**
+ * Finds the declaration of `name` in TS/JS source lines: its full extent, including leading
+ * JSDoc, decorators and directly following overloads. The least indented declaration wins, so
+ * top-level symbols beat same-named locals. Undefined when `name` is not declared.
+ */
+export function resolveSymbol(lines: string[], name: string): SymbolSpan | undefined {
+	const matches = listDeclarations(lines).filter((declaration) => declaration.name === name);
+	if (matches.length === 0) {
+		return undefined;
+	}
+	const [declaration] = matches.sort((a, b) => a.indent - b.indent || a.line - b.line);
+
+	let end = findDeclarationEnd(lines, declaration.line);
+	for (let next = nextNonBlank(lines, end - 1); next < lines.length; next = nextNonBlank(lines, end - 1)) {
+		const match = lines[next].match(DECLARATION);
+		if (match?.[2] !== name || match[1].length !== declaration.indent) {
+			break;
+		}
+		end = findDeclarationEnd(lines, next);
+	}
+	return { start: findLeadingStart(lines, declaration.line), end };
+}
+
+export function editDistance(a: string, b: string): number {
+	const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		let diagonal = row[0];
+		row[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const above = row[j];
+			row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+			diagonal = above;
+		}
+	}
+	return row[b.length];
+}
+
+/** Declared names closest to `name` (case-insensitive edit distance), best first. */
+export function suggestSymbols(lines: string[], name: string): string[] {
+	const target = name.toLowerCase();
+	const names = [...new Set(listDeclarations(lines).map((declaration) => declaration.name))];
+	return names
+		.map((candidate) => ({ candidate, distance: editDistance(target, candidate.toLowerCase()) }))
+		.sort((a, b) => a.distance - b.distance || (a.candidate < b.candidate ? -1 : 1))
+		.slice(0, MAX_SUGGESTIONS)
+		.map(({ candidate }) => candidate);
+}
@@ -0,0 +1,84 @@
+import { access, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createReadTool,
+	formatSize,
+	type ReadOperations,
+	type ReadToolOptions,
+} from "@mariozechner/pi-coding-agent";
+import { afterAll, beforeAll, bench, describe } from "vitest";
+import { createReadManyTool } from "../../read-many.js";
+
+// 26 files of about 1MB each, far past the default 50KB budget.
+const FILE_COUNT = 26;
+const LINES_PER_FILE = 12_000;
+
+let workspace: string;
+const files = Array.from({ length: FILE_COUNT }, (_, i) => ({ path: `file-${i}.ts` }));
+
+interface IoStats {
+	calls: number;
+	bytes: number;
+	peakArrayBuffers: number;
+}
+
+/** A read_many tool whose reads are counted; `windowed: false` ignores read_many's windowed operations. */
+function countingTool(windowed: boolean, stats: IoStats) {
+	const fullOperations: ReadOperations = {
+		readFile: (path) => readFile(path),
+		access: (path) => access(path),
+	};
+	return createReadManyTool((cwd: string, options?: ReadToolOptions) => {
+		const operations = (windowed && options?.operations) || fullOperations;
+		return createReadTool(cwd, {
+			operations: {
+				...operations,
+				readFile: async (path) => {
+					const buffer = await operations.readFile(path);
+					stats.bytes += buffer.length;
+					stats.peakArrayBuffers = Math.max(stats.peakArrayBuffers, process.memoryUsage().arrayBuffers);
+					return buffer;
+				},
+			},
+		});
+	});
+}
+
+const stats: Record<string, IoStats> = {
+	"stat-first (default)": { calls: 0, bytes: 0, peakArrayBuffers: 0 },
+	"full reads": { calls: 0, bytes: 0, peakArrayBuffers: 0 },
+};
+
+async function readBatch(name: string, windowed: boolean): Promise<void> {
+	const entry = stats[name];
+	entry.calls += 1;
+	const tool = countingTool(windowed, entry);
+	await tool.execute("bench", { files }, undefined, undefined, { cwd: workspace } as any);
+}
+
+beforeAll(async () => {
+	workspace = await mkdtemp(join(tmpdir(), "read-many-bench-"));
+	for (const [i, { path }] of files.entries()) {
+		const lines = Array.from({ length: LINES_PER_FILE }, (_, line) =>
+			line % 400 === 0 ? `export function part${i}_${line}() {` : `\t// file ${i}, line ${line + 1}: ${"x".repeat(64)}`,
+		);
+		await writeFile(join(workspace, path), lines.join("\n"));
+	}
+});
+
+afterAll(async () => {
+	await rm(workspace, { recursive: true, force: true });
+	for (const [name, entry] of Object.entries(stats)) {
+		if (entry.calls > 0) {
+			console.log(
+				`${name}: ${formatSize(entry.bytes / entry.calls)} read per call, peak array buffers ${formatSize(entry.peakArrayBuffers)}`,
+			);
+		}
+	}
+});
+
+describe(`read_many: ${FILE_COUNT} large files under the default budget`, () => {
+	bench("stat-first (default)", () => readBatch("stat-first (default)", true), { iterations: 5, time: 0 });
+	bench("full reads", () => readBatch("full reads", false), { iterations: 5, time: 0 });
+});
@@ -0,0 +1,67 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { detectBinary, formatBinaryBody } from "../../binary.js";
+import { parseReadManyOutput } from "../../parse.js";
+import { createReadManyTool } from "../../read-many.js";
+
+const ELF_HEAD = Buffer.concat([Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]), Buffer.alloc(12)]);
+
+let workspace: string;
+
+beforeEach(async () => {
+	workspace = await mkdtemp(join(tmpdir(), "read-many-binary-"));
+	await writeFile(join(workspace, "app"), Buffer.concat([ELF_HEAD, Buffer.alloc(4096, 0xab)]));
+	await writeFile(join(workspace, "notes.txt"), "plain text");
+});
+
+afterEach(async () => {
+	await rm(workspace, { recursive: true, force: true });
+});
+
+describe("read_many: binary files", () => {
+	it("detects the type from magic bytes and renders a hexdump of the leading bytes", () => {
+		expect(detectBinary(Buffer.from("no NUL bytes here"), 17)).toBeUndefined();
+		expect(detectBinary(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]), 9)).toMatchObject({
+			type: "PNG image",
+			image: true,
+		});
+		expect(detectBinary(Buffer.from([0x01, 0x00, 0x02]), 3)?.type).toBe("unknown binary data");
+
+		const binary = detectBinary(ELF_HEAD, 2048);
+		expect(binary).toMatchObject({ type: "ELF executable", image: false, size: 2048 });
+		expect(binary && formatBinaryBody(binary)).toBe(
+			[
+				"[Binary file: ELF executable, 2.0KB. First 20 bytes:]",
+				"00000000  7f 45 4c 46 02 01 01 00  00 00 00 00 00 00 00 00  |.ELF............|",
+				"00000010  00 00 00 00                                       |....|",
+			].join("\n"),
+		);
+	});
+
+	it("returns a summary block for binary files and rejects pattern reads of them", async () => {
+		const tool = createReadManyTool();
+
+		const result = await tool.execute(
+			"call-binary",
+			{ files: [{ path: "app" }, { path: "app", pattern: "main" }, { path: "notes.txt" }] },
+			undefined,
+			undefined,
+			{ cwd: workspace } as any,
+		);
+
+		const details = result.details as any;
+		const records = parseReadManyOutput((result.content[0] as any).text);
+		expect(records[0].body.split("\n")).toHaveLength(5);
+		expect(records[0].body.split("\n")[0]).toBe("[Binary file: ELF executable, 4.0KB. First 64 bytes:]");
+		expect(details.files[0]).toMatchObject({ ok: true, binary: true, inclusion: "full" });
+		expect(details.files[1]).toMatchObject({
+			ok: false,
+			errorCode: "binary",
+			error: "Pattern reads need a text file, not binary data (ELF executable)",
+		});
+		expect(records[2].body).toBe("plain text");
+		expect(details.files[2].binary).toBeUndefined();
+	});
+});
@@ -0,0 +1,74 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { classifyReadError } from "../../errors.js";
+import { parseReadManyOutput } from "../../parse.js";
+import { createReadManyTool } from "../../read-many.js";
+
+let workspace: string;
+
+beforeEach(async () => {
+	workspace = await mkdtemp(join(tmpdir(), "read-many-errors-"));
+	await mkdir(join(workspace, "src", "routes"), { recursive: true });
+	await mkdir(join(workspace, "lib"));
+	await mkdir(join(workspace, "assets"));
+	await writeFile(join(workspace, "src", "server.ts"), "export const server = 1;");
+	await writeFile(join(workspace, "src", "routes", "server.ts"), "export const routes = 1;");
+	await writeFile(join(workspace, "lib", "server.js"), "exports.server = 1;");
+	await writeFile(join(workspace, "src", "client.ts"), "export const client = 1;");
+	await writeFile(join(workspace, "assets", "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0]));
+});
+
+afterEach(async () => {
+	await rm(workspace, { recursive: true, force: true });
+});
+
+describe("read_many: error codes", () => {
+	it("classifies errno codes and read tool messages", () => {
+		const errno = (code: string) => Object.assign(new Error(code), { code });
+		expect(classifyReadError(errno("ENOENT"))).toBe("not_found");
+		expect(classifyReadError(errno("EISDIR"))).toBe("is_directory");
+		expect(classifyReadError(errno("EACCES"))).toBe("permission_denied");
+		expect(classifyReadError(errno("ERR_FS_FILE_TOO_LARGE"))).toBe("too_large");
+		expect(classifyReadError(new Error("Operation aborted"))).toBe("aborted");
+		expect(classifyReadError(new Error("path 'src/a.ts' does not exist in 'HEAD'"))).toBe("not_found");
+		expect(classifyReadError(new Error("boom"))).toBe("read_failed");
+	});
+
+	it("suggests close existing paths for missing files and lists directories with nothing to read", async () => {
+		// Ignored directories are never searched for suggestions.
+		await mkdir(join(workspace, "build"));
+		await writeFile(join(workspace, ".gitignore"), "build/\n");
+		await writeFile(join(workspace, "build", "server.ts"), "export const built = 1;");
+		const tool = createReadManyTool(undefined, { policy: { deny: ["src/routes/**"] } });
+
+		const result = await tool.execute(
+			"call-errors",
+			{
+				files: [
+					{ path: "src/sever.ts" },
+					{ path: "src/nothing-like-it.md" },
+					{ path: "assets" },
+					{ path: "src/routes/server.ts" },
+				],
+			},
+			undefined,
+			undefined,
+			{ cwd: workspace } as any,
+		);
+
+		const details = result.details as any;
+		const records = parseReadManyOutput((result.content[0] as any).text);
+		expect(details.files.map((file: any) => file.errorCode)).toEqual([
+			"not_found",
+			"not_found",
+			"is_directory",
+			"policy_denied",
+		]);
+		// Files in the requested directory rank first; the denied src/routes/server.ts is never suggested.
+		expect(records[0].body.split("\n")[1]).toBe("[Closest existing paths: src/server.ts, lib/server.js]");
+		expect(records[1].body).toBe(`[Error: ${details.files[1].error}]`);
+		expect(records[2].body).toBe("[Error: No readable text files matched directory]\n[Directory contents: logo.png]");
+	});
+});
@@ -0,0 +1,115 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { expandFileEntries } from "../../expand.js";
+import { createReadManyTool } from "../../read-many.js";
+
+let root: string;
+
+async function writeTree(files: Record<string, string | Buffer>) {
+	for (const [path, content] of Object.entries(files)) {
+		const absolutePath = join(root, path);
+		await mkdir(dirname(absolutePath), { recursive: true });
+		await writeFile(absolutePath, content);
+	}
+}
+
+beforeEach(async () => {
+	root = await mkdtemp(join(tmpdir(), "read-many-expand-"));
+	await mkdir(join(root, ".git"));
+	await writeTree({
+		".gitignore": "dist/\n*.log\n",
+		"src/b.ts": "export const b = 2;",
+		"src/a.ts": "export const a = 1;",
+		"src/nested/c.ts": "export const c = 3;",
+		"src/notes.md": "# notes",
+		"src/debug.log": "ignored",
+		"src/blob.bin": Buffer.from([0x00, 0x01, 0x02]),
+		"dist/out.ts": "ignored",
+	});
+});
+
+afterEach(async () => {
+	await rm(root, { recursive: true, force: true });
+});
+
+describe("read_many: path expansion", () => {
+	it("expands globs in sorted order and keeps literal paths in request order", async () => {
+		const result = await expandFileEntries(
+			[{ path: "src/notes.md" }, { path: "src/**/*.ts", limit: 5 }],
+			root,
+			26,
+		);
+
+		expect(result.expanded).toBe(true);
+		expect(result.entries.map((entry) => entry.request.path)).toEqual([
+			"src/notes.md",
+			"src/a.ts",
+			"src/b.ts",
+			"src/nested/c.ts",
+		]);
+		expect(result.entries[0].source).toBeUndefined();
+		expect(result.entries[1].source).toBe("src/**/*.ts");
+		expect(result.entries[1].request.limit).toBe(5);
+	});
+
+	it("expands directories recursively, skipping ignored and binary files", async () => {
+		const result = await expandFileEntries([{ path: "src/" }], root, 26);
+		expect(result.entries.map((entry) => entry.request.path)).toEqual([
+			"src/a.ts",
+			"src/b.ts",
+			"src/nested/c.ts",
+			"src/notes.md",
+		]);
+	});
+
+	it("reports patterns that match nothing", async () => {
+		const result = await expandFileEntries([{ path: "**/*.py" }, { path: "dist" }], root, 26);
+		expect(result.entries).toHaveLength(2);
+		expect(result.entries[0].error).toBe("No readable text files matched glob pattern");
+		expect(result.entries[1].error).toBe("No readable text files matched directory");
+	});
+
+	it("stops adding matches at maxFiles and counts the rest unchecked", async () => {
+		const result = await expandFileEntries([{ path: "src/**/*" }], root, 2);
+		expect(result.entries.map((entry) => entry.request.path)).toEqual(["src/a.ts", "src/b.ts"]);
+		// blob.bin, nested/c.ts and notes.md: past the cap, binary files are not sniffed out. debug.log is ignored.
+		expect(result.droppedCount).toBe(3);
+	});
+
+	it("prunes ignored directories while walking, even when a nested .gitignore re-includes files", async () => {
+		await writeTree({ "dist/keep.ts": "x", "dist/.gitignore": "!keep.ts\n", "src/gen/.gitignore": "*\n", "src/gen/g.ts": "x" });
+		const result = await expandFileEntries([{ path: "**/*.ts" }], root, 26);
+		expect(result.entries.map((entry) => entry.request.path)).toEqual(["src/a.ts", "src/b.ts", "src/nested/c.ts"]);
+	});
+
+	it("leaves non-glob, non-directory paths untouched", async () => {
+		const result = await expandFileEntries([{ path: "missing.ts" }], root, 26);
+		expect(result.expanded).toBe(false);
+		expect(result.entries).toEqual([{ request: { path: "missing.ts" } }]);
+	});
+
+	it("reports expanded and unmatched paths in execute details", async () => {
+		const tool = createReadManyTool();
+		const result = await tool.execute(
+			"call-expand",
+			{ files: [{ path: "src/*.ts" }, { path: "*.py" }] },
+			undefined,
+			undefined,
+			{ cwd: root } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(details.files.map((file: any) => [file.path, file.ok, file.source])).toEqual([
+			["src/a.ts", true, "src/*.ts"],
+			["src/b.ts", true, "src/*.ts"],
+			["*.py", false, "*.py"],
+		]);
+		expect(details.expansion).toEqual({ expandedCount: 3, droppedCount: 0 });
+		expect(text).toContain("@src/a.ts");
+		expect(text).toContain("export const b = 2;");
+		expect(text).toContain("[Error: No readable text files matched glob pattern]");
+	});
+});
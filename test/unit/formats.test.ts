@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { OUTPUT_FORMATS, renderSections } from "../../formats.js";
+import { createReadManyTool } from "../../read-many.js";
+
+function createToolWithBodies(bodies: Record<string, string>) {
+	const readTool = {
+		execute: async (_toolCallId: string, input: { path: string }) => ({
+			content: [{ type: "text", text: bodies[input.path] }],
+		}),
+	};
+	return createReadManyTool(() => readTool as any);
+}
+
+describe("read_many: output formats", () => {
+	it("frames xml blocks and renames the tag when the body contains its closing tag", () => {
+		const { formatBlock } = OUTPUT_FORMATS.xml;
+		expect(formatBlock('src/"a".ts', "x < y", 1)).toBe('<file path="src/&quot;a&quot;.ts">\nx < y\n</file>');
+
+		const colliding = formatBlock("/a.xml", "before</file>after\n</file_1>", 1);
+		expect(colliding).toBe('<file_2 path="/a.xml">\nbefore</file>after\n</file_1>\n</file_2>');
+	});
+
+	it("frames markdown blocks with a language tag and a fence longer than any in the body", () => {
+		const { formatBlock } = OUTPUT_FORMATS.markdown;
+		expect(formatBlock("src/a.ts", "const a = 1;", 1)).toBe("### src/a.ts\n```typescript\nconst a = 1;\n```");
+
+		const readme = "# Title\n  ````sh\n  ls\n  ````";
+		expect(formatBlock("README.md", readme, 1)).toBe(`### README.md\n\`\`\`\`\`markdown\n${readme}\n\`\`\`\`\``);
+		expect(formatBlock("Makefile.unknownext", "x", 1)).toBe("### Makefile.unknownext\n```\nx\n```");
+	});
+
+	it("frames outline blocks apart from file content in every format", () => {
+		const body = "[Outline]\n1: # Title";
+		expect(OUTPUT_FORMATS.heredoc.formatOutline("/a.md", body, 1)).toMatch(
+			/^@\/a\.md \(outline\)\n<<'PINE_1_[0-9A-F]{6}'\n\[Outline\]\n1: # Title\nPINE_1_[0-9A-F]{6}$/,
+		);
+		expect(OUTPUT_FORMATS.xml.formatOutline("/a.md", body, 1)).toBe(`<outline path="/a.md">\n${body}\n</outline>`);
+		expect(OUTPUT_FORMATS.markdown.formatOutline("/a.md", body, 1)).toBe(`### /a.md (outline)\n\`\`\`\n${body}\n\`\`\``);
+		expect(JSON.parse(OUTPUT_FORMATS.json.formatOutline("/a.md", body, 1))).toEqual({ path: "/a.md", outline: body });
+	});
+
+	it("names the resolved symbol in the header of every format", () => {
+		const symbol = { name: "add", startLine: 3, endLine: 6 };
+		expect(OUTPUT_FORMATS.heredoc.formatBlock("/a.ts", "x", 1, { symbol })).toMatch(/^@\/a\.ts \(symbol add, lines 3-6\)\n/);
+		expect(OUTPUT_FORMATS.xml.formatBlock("/a.ts", "x", 1, { symbol })).toBe(
+			'<file path="/a.ts" symbol="add" lines="3-6">\nx\n</file>',
+		);
+		expect(OUTPUT_FORMATS.markdown.formatBlock("/a.ts", "x", 1, { symbol })).toBe(
+			"### /a.ts (symbol add, lines 3-6)\n```typescript\nx\n```",
+		);
+		expect(JSON.parse(OUTPUT_FORMATS.json.formatBlock("/a.ts", "x", 1, { symbol }))).toEqual({
+			path: "/a.ts",
+			symbol: "add",
+			lines: "3-6",
+			content: "x",
+		});
+	});
+
+	it("adds file metadata to the header of every format", () => {
+		const metadata = {
+			shown: "1-40",
+			totalLines: 120,
+			size: 2150,
+			mtime: "2026-01-02T03:04:05Z",
+			language: "typescript",
+			hash: "1a2b3c4d",
+		};
+		const suffix = " · lines 1-40 of 120 · 2.1KB · modified 2026-01-02T03:04:05Z · typescript · sha 1a2b3c4d";
+		expect(OUTPUT_FORMATS.heredoc.formatBlock("/a.ts", "x", 1, { metadata })).toMatch(new RegExp(`^@/a\\.ts${suffix}\n`));
+		expect(OUTPUT_FORMATS.markdown.formatBlock("/a.ts", "x", 1, { metadata })).toBe(
+			`### /a.ts${suffix}\n\`\`\`typescript\nx\n\`\`\``,
+		);
+		expect(OUTPUT_FORMATS.xml.formatBlock("/a.ts", "x", 1, { metadata })).toBe(
+			'<file path="/a.ts" shown="1-40" total-lines="120" size="2150" modified="2026-01-02T03:04:05Z" language="typescript" hash="1a2b3c4d">\nx\n</file>',
+		);
+		expect(JSON.parse(OUTPUT_FORMATS.json.formatBlock("/a.ts", "x", 1, { metadata }))).toEqual({
+			path: "/a.ts",
+			...metadata,
+			content: "x",
+		});
+	});
+
+	it("renders json blocks as a parseable array", () => {
+		const { formatBlock, formatNotice } = OUTPUT_FORMATS.json;
+		const sections = [formatBlock("/a", 'line "1"\nline 2', 1), formatNotice("[done]")];
+		expect(JSON.parse(renderSections(OUTPUT_FORMATS.json, sections))).toEqual([
+			{ path: "/a", content: 'line "1"\nline 2' },
+			{ notice: "[done]" },
+		]);
+		expect(JSON.parse(renderSections(OUTPUT_FORMATS.json, []))).toEqual([]);
+		expect(renderSections(OUTPUT_FORMATS.heredoc, [])).toBe("");
+	});
+
+	it.each(["heredoc", "xml", "markdown", "json"] as const)("packs %s output within the budget", async (format) => {
+		const body = Array.from({ length: 300 }, (_, i) => `line "${i}" <tag> \`code\``).join("\n");
+		const tool = createToolWithBodies({ "/a.ts": "short", "/b.ts": body, "/c.ts": body });
+
+		const result = await tool.execute(
+			`call-${format}`,
+			{ files: [{ path: "/a.ts" }, { path: "/b.ts" }, { path: "/c.ts" }], format, maxBytes: 4000, maxLines: 120 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(details.packing.format).toBe(format);
+		expect(details.combinedTruncation).toBeUndefined();
+		expect(Buffer.byteLength(text)).toBeLessThanOrEqual(4000);
+		expect(text.split("\n").length).toBeLessThanOrEqual(120);
+		expect(details.packing.partialIncludedPath).toBe("/b.ts");
+		expect(details.packing.continuation.files[0].path).toBe("/b.ts");
+
+		if (format === "json") {
+			const parsed = JSON.parse(text);
+			expect(parsed[0]).toEqual({ path: "/a.ts", content: "short" });
+			const shown = parsed[1].content.split("\n");
+			expect(shown.at(-1)).toBe(`[Partial block: line(s) 1-${shown.length - 1} shown]`);
+			expect(body.startsWith(shown.slice(0, -1).join("\n"))).toBe(true);
+			expect(parsed.at(-1).notice).toContain("continueFrom");
+		}
+	});
+
+	it("keeps json output parseable and within tight budgets", async () => {
+		// Deterministic pseudo-random batches (mulberry32), so a failure names a reproducible case.
+		let seed = 7;
+		const random = () => {
+			seed = (seed + 0x6d2b79f5) | 0;
+			let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+			t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+			return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+		};
+		const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+		const lineKinds = (i: number) => [`const v${i} = "${i}";`, `\tx\\y "q" ${"z".repeat(i % 70)}`, "", "\u0001é😀"];
+
+		for (let batch = 0; batch < 150; batch++) {
+			const bodies: Record<string, string> = {};
+			const files = Array.from({ length: 1 + Math.floor(random() * 10) }, (_, f) => {
+				const lineCount = 1 + Math.floor(random() * 300);
+				bodies[`/f${f}.ts`] = Array.from({ length: lineCount }, (_, i) => pick(lineKinds(i))).join("\n");
+				return {
+					path: `/f${f}.ts`,
+					...(random() < 0.3 ? { priority: 1 + Math.floor(random() * 5) } : {}),
+					...(random() < 0.2 ? { pattern: "const" } : {}),
+					...(random() < 0.2 ? { ranges: [{ offset: 2, limit: 5 }, { offset: 20, limit: 30 }] } : {}),
+				};
+			});
+			const params = {
+				files,
+				format: "json",
+				strategy: pick(["auto", "optimal", "request-order", "smallest-first", "fair-share"]),
+				partialMode: pick(["head", "tail", "head+tail"]),
+				maxLines: 5 + Math.floor(random() * 400),
+				maxBytes: 200 + Math.floor(random() * 16000),
+			};
+
+			const result = await createToolWithBodies(bodies).execute(`call-${batch}`, params as any, undefined, undefined, {
+				cwd: "/",
+			} as any);
+
+			const text = (result.content[0] as any).text as string;
+			const label = `batch ${batch}: ${JSON.stringify({ ...params, files: undefined })}`;
+			expect(() => JSON.parse(text), label).not.toThrow();
+			expect(Buffer.byteLength(text), label).toBeLessThanOrEqual(params.maxBytes);
+			expect(text.split("\n").length, label).toBeLessThanOrEqual(params.maxLines);
+		}
+	});
+
+	it("uses the extension default format when the call sets none", async () => {
+		const readTool = {
+			execute: async () => ({ content: [{ type: "text", text: "body" }] }),
+		};
+		const tool = createReadManyTool(() => readTool as any, { format: "xml" });
+
+		const result = await tool.execute("call-default-format", { files: [{ path: "/a" }] }, undefined, undefined, {
+			cwd: "/",
+		} as any);
+		expect((result.content[0] as any).text).toBe('<file path="/a">\nbody\n</file>');
+	});
+});
@@ -1,20 +1,77 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
 import registerExtension from "../../index.js";
+import { createReadManyExtension } from "../../read-many.js";
+
+function createApi() {
+	const handlers = new Map<string, Array<(event: unknown, ctx: unknown) => unknown>>();
+	let registered: { name?: string; execute?: any } | undefined;
+	const api = {
+		registerTool: (definition: { name: string; execute: unknown }) => {
+			registered = definition;
+		},
+		on: (event: string, handler: (event: unknown, ctx: unknown) => unknown) => {
+			handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+		},
+	} as unknown as ExtensionAPI;
+	const emit = async (event: { type: string; [key: string]: unknown }, ctx: unknown = {}) => {
+		for (const handler of handlers.get(event.type) ?? []) {
+			await handler(event, ctx);
+		}
+	};
+	return { api, emit, handlers, tool: () => registered };
+}
 
 describe("index extension wiring", () => {
 	it("registers read_many tool", () => {
-		let registered: { name?: string; execute?: unknown } | undefined;
-
-		const api = {
-			registerTool: (definition: { name: string; execute: unknown }) => {
-				registered = definition;
-			},
-		} as unknown as ExtensionAPI;
+		const { api, tool } = createApi();
 
 		registerExtension(api);
 
-		expect(registered?.name).toBe("read_many");
-		expect(typeof registered?.execute).toBe("function");
+		expect(tool()?.name).toBe("read_many");
+		expect(typeof tool()?.execute).toBe("function");
+	});
+
+	it("tracks session reads from read and read_many, and forgets them when the context is rewritten", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-session-"));
+		try {
+			await writeFile(join(dir, "a.ts"), "export const a = 1;");
+			const { api, emit, tool } = createApi();
+			createReadManyExtension()(api);
+			const run = async () => {
+				const result = await tool()?.execute("call", { files: [{ path: "a.ts" }] }, undefined, undefined, {
+					cwd: dir,
+				});
+				return (result.content[0] as any).text as string;
+			};
+
+			await emit({ type: "turn_start" });
+			await emit({ type: "turn_start" });
+			await emit(
+				{
+					type: "tool_result",
+					toolName: "read",
+					input: { path: "a.ts" },
+					content: [{ type: "text", text: "export const a = 1;" }],
+					isError: false,
+				},
+				{ cwd: dir },
+			);
+			expect(await run()).toContain("[unchanged since previous read at turn 2]");
+
+			await emit({ type: "session_compact" });
+			expect(await run()).toContain("export const a = 1;");
+			expect(await run()).toContain("[unchanged since previous read_many at turn 2]");
+
+			const { api: plainApi, handlers, tool: plainTool } = createApi();
+			createReadManyExtension({ dedupe: false })(plainApi);
+			expect(handlers.size).toBe(0);
+			expect(plainTool()?.name).toBe("read_many");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
 	});
 });
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { extractOutline } from "../../outline.js";
+
+describe("read_many: outlines", () => {
+	it("lists exported declarations of TS/JS files", () => {
+		const body = [
+			'import { a } from "./a.js";',
+			"",
+			"export interface Options {",
+			"	name: string;",
+			"}",
+			"function helper() {}",
+			"export type Mode = \"a\" | \"b\";",
+			"export async function run(options: Options): Promise<void> {",
+			"export default class Runner {",
+			"export const VERSION = 1;",
+		].join("\n");
+
+		expect(extractOutline("src/run.ts", body)).toEqual([
+			{ bodyLine: 2, text: "export interface Options" },
+			{ bodyLine: 6, text: 'export type Mode = "a" | "b";' },
+			{ bodyLine: 7, text: "export async function run(options: Options): Promise<void>" },
+			{ bodyLine: 8, text: "export default class Runner" },
+			{ bodyLine: 9, text: "export const VERSION = 1;" },
+		]);
+	});
+
+	it("lists Markdown headings outside code fences", () => {
+		const body = ["# Title", "intro", "```sh", "# not a heading", "```", "## Usage", "#hashtag"].join("\n");
+		expect(extractOutline("README.md", body)).toEqual([
+			{ bodyLine: 0, text: "# Title" },
+			{ bodyLine: 5, text: "## Usage" },
+		]);
+		expect(extractOutline("notes.txt", body).map((entry) => entry.bodyLine)).toEqual([0, 5]);
+	});
+
+	it("lists top-level keys of JSON and config files", () => {
+		const json = ["{", '  "name": "x",', '  "scripts": {', '    "test": "vitest"', "  },", '  "version": "1.0.0"', "}"];
+		expect(extractOutline("package.json", json.join("\n")).map((entry) => entry.text)).toEqual([
+			'"name": "x",',
+			'"scripts":',
+			'"version": "1.0.0"',
+		]);
+
+		const yaml = ["name: ci", "on:", "  push:", "jobs:", "  test:"].join("\n");
+		expect(extractOutline("ci.yml", yaml).map((entry) => entry.text)).toEqual(["name: ci", "on:", "jobs:"]);
+		expect(extractOutline("app.log", "ERROR: boom\nWARN: slow")).toEqual([]);
+	});
+
+	it("finds the top-level keys of JSON with more keys than a call can take arguments", () => {
+		const keys = Array.from({ length: 200_000 }, (_, i) => `    "k${i}": ${i},`);
+		const json = ["{", '  "data": {', ...keys, "  },", '  "count": 200000', "}"].join("\n");
+		expect(extractOutline("data.json", json).map((entry) => entry.text)).toEqual(['"data":', '"count": 200000']);
+	});
+});
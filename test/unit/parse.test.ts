@@ -0,0 +1,127 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+	formatContentBlock,
+	formatOutlineCoverage,
+	OUTLINE_NOTICE,
+	OUTPUT_FORMATS,
+	pickDelimiter,
+} from "../../formats.js";
+import { parseReadManyOutput } from "../../parse.js";
+import { createReadManyTool } from "../../read-many.js";
+
+// Bodies biased towards lines that look like headers, openers and delimiters of the same block.
+function bodyArbitrary(path: string, index: number) {
+	const base = pickDelimiter(path, index, "");
+	const line = fc.oneof(
+		fc.string(),
+		fc.constantFrom(base, `${base}_1`, `${base}_2`, `${base}\r`, `@${path}`, `<<'${base}'`, ""),
+	);
+	return fc.array(line, { maxLength: 12 }).map((lines) => lines.join("\n"));
+}
+
+describe("read_many: output parser", () => {
+	it("round-trips any body through the heredoc format", () => {
+		const block = fc
+			.record({
+				path: fc.string({ minLength: 1 }).filter((path) => !path.includes("\n")),
+				index: fc.integer({ min: 1, max: 40 }),
+			})
+			.chain(({ path, index }) => bodyArbitrary(path, index).map((body) => ({ path, index, body })));
+
+		fc.assert(
+			fc.property(fc.array(block, { minLength: 1, maxLength: 4 }), (blocks) => {
+				const text = blocks.map(({ path, body, index }) => formatContentBlock(path, body, index)).join("\n\n");
+				expect(parseReadManyOutput(text)).toEqual(
+					blocks.map(({ path, body }) => ({ path, body, partial: false })),
+				);
+			}),
+		);
+	});
+
+	it("marks blocks cut before their closing delimiter as partial", () => {
+		const text = `${formatContentBlock("/a", "one", 1)}\n\n${formatContentBlock("/b", "two\nthree", 2)}`;
+		const cut = text.slice(0, text.lastIndexOf("\n"));
+		expect(parseReadManyOutput(cut)).toEqual([
+			{ path: "/a", body: "one", partial: false },
+			{ path: "/b", body: "two\nthree", partial: true },
+		]);
+	});
+
+	it("marks blocks listed in the continuation notice as partial", async () => {
+		const big = Array.from({ length: 100 }, (_, i) => `line-${i}`).join("\n");
+		const bodies: Record<string, string> = { "/a": "a", "/big": big };
+		const tool = createReadManyTool(
+			() =>
+				({
+					execute: async (_id: string, input: { path: string }) => ({
+						content: [{ type: "text", text: bodies[input.path] }],
+					}),
+				}) as any,
+		);
+		const result = await tool.execute(
+			"call-parse",
+			{ files: [{ path: "/a" }, { path: "/big" }], maxLines: 40 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const records = parseReadManyOutput((result.content[0] as any).text);
+		expect(records.map(({ path, partial }) => ({ path, partial }))).toEqual([
+			{ path: "/a", partial: false },
+			{ path: "/big", partial: true },
+		]);
+		expect(records[0].body).toBe("a");
+		expect(big.startsWith(records[1].body)).toBe(true);
+	});
+
+	it("decides partial status per block when a file is requested twice", async () => {
+		const lines = Array.from({ length: 100 }, (_, i) => `line-${i + 1}`);
+		const tool = createReadManyTool(
+			() =>
+				({
+					execute: async (_id: string, input: { offset?: number; limit?: number }) => {
+						const start = (input.offset ?? 1) - 1;
+						const end = input.limit === undefined ? lines.length : start + input.limit;
+						return { content: [{ type: "text", text: lines.slice(start, end).join("\n") }] };
+					},
+				}) as any,
+		);
+		const result = await tool.execute(
+			"call-parse-twice",
+			{ files: [{ path: "/big", offset: 1, limit: 3 }, { path: "/big" }], maxLines: 40 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const records = parseReadManyOutput((result.content[0] as any).text);
+		expect(records.map(({ path, partial }) => ({ path, partial }))).toEqual([
+			{ path: "/big", partial: false },
+			{ path: "/big", partial: true },
+		]);
+		expect(records[0].body).toBe("line-1\nline-2\nline-3");
+		expect(lines.join("\n").startsWith(records[1].body)).toBe(true);
+	});
+
+	it("returns outline blocks as outline records with only their entries", () => {
+		const { formatOutline } = OUTPUT_FORMATS.heredoc;
+		const text = `${formatContentBlock("/a", "one", 1)}\n\n${formatOutline("/b.md", `${OUTLINE_NOTICE}\n3: # Title`, 2)}`;
+		expect(parseReadManyOutput(text)).toEqual([
+			{ path: "/a", body: "one", partial: false },
+			{ path: "/b.md", body: "3: # Title", partial: true, outline: true },
+		]);
+		const covering = formatOutline("/c.md", `${OUTLINE_NOTICE}\n${formatOutlineCoverage("1-2000")}\n3: # Title`, 1);
+		expect(parseReadManyOutput(covering)).toEqual([{ path: "/c.md", body: "3: # Title", partial: true, outline: true }]);
+	});
+
+	it("splits metadata fields off block headers", () => {
+		const { formatBlock } = OUTPUT_FORMATS.heredoc;
+		const symbol = { name: "add", startLine: 3, endLine: 6 };
+		const text = formatBlock("/a.ts", "one", 1, { symbol, metadata: { shown: "3-6", totalLines: 9, language: "typescript" } });
+		expect(parseReadManyOutput(text)).toEqual([
+			{ path: "/a.ts", body: "one", partial: false, symbol, metadata: "lines 3-6 of 9 · typescript" },
+		]);
+	});
+});
@@ -0,0 +1,109 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseReadManyOutput } from "../../parse.js";
+import { checkPathPolicy, loadProjectPolicy } from "../../policy.js";
+import { createReadManyTool } from "../../read-many.js";
+
+let root: string;
+let workspace: string;
+
+beforeEach(async () => {
+	root = await mkdtemp(join(tmpdir(), "read-many-policy-"));
+	workspace = join(root, "workspace");
+	await mkdir(join(workspace, "src"), { recursive: true });
+	await writeFile(join(workspace, "src", "a.ts"), "export const a = 1;");
+	await writeFile(join(workspace, ".env"), "API_KEY=abc123def456\nDEBUG=true");
+	await writeFile(join(root, "outside.txt"), "outside");
+	await symlink(join(root, "outside.txt"), join(workspace, "src", "link.ts"));
+});
+
+afterEach(async () => {
+	await rm(root, { recursive: true, force: true });
+});
+
+describe("read_many: path policy", () => {
+	it("denies paths by deny glob, allow list and workspace confinement", async () => {
+		const check = (path: string, policy: object) =>
+			checkPathPolicy([{ policy, source: "test" }], join(workspace, path), workspace);
+
+		expect(await check(".env", { deny: [".env*"] })).toBe('Denied by read_many policy (test): matches deny pattern ".env*"');
+		expect(await check("src/a.ts", { deny: [".env*"] })).toBeUndefined();
+		expect(await check("src/a.ts", { allow: ["src/**"] })).toBeUndefined();
+		expect(await check(".env", { allow: ["src/**"] })).toBe("Denied by read_many policy (test): matches no allow pattern");
+		// The symlink lies inside the workspace but points outside it.
+		expect(await check("src/link.ts", { allow: ["src/**"] })).toBe("Denied by read_many policy (test): matches no allow pattern");
+		expect(await check("src/link.ts", { confineToWorkspace: true })).toBe(
+			`Denied by read_many policy (test): outside the workspace root ${workspace}`,
+		);
+		expect(await check("../outside.txt", { confineToWorkspace: true })).toContain("outside the workspace root");
+		expect(await check("src/a.ts", { confineToWorkspace: true })).toBeUndefined();
+	});
+
+	it("denies every file inside a denied directory", async () => {
+		await mkdir(join(workspace, ".ssh"));
+		await mkdir(join(workspace, "config", "secrets"), { recursive: true });
+		await writeFile(join(workspace, ".ssh", "id_rsa"), "key");
+		await writeFile(join(workspace, "config", "secrets", "k.txt"), "key");
+		const check = (path: string, policy: object) =>
+			checkPathPolicy([{ policy, source: "test" }], join(workspace, path), workspace);
+
+		const policy = { deny: [".ssh", "secrets"] };
+		expect(await check(".ssh/id_rsa", policy)).toBe('Denied by read_many policy (test): matches deny pattern ".ssh"');
+		expect(await check("config/secrets/k.txt", policy)).toBe(
+			'Denied by read_many policy (test): matches deny pattern "secrets"',
+		);
+		expect(await check("src/a.ts", policy)).toBeUndefined();
+		expect(await check("config/secrets/k.txt", { deny: [`${workspace}/config`] })).toContain("matches deny pattern");
+		// Directories above the workspace are not matched by relative patterns.
+		expect(await check("src/a.ts", { deny: [root.split("/").pop() as string] })).toBeUndefined();
+
+		const tool = createReadManyTool(undefined, { policy });
+		const result = await tool.execute("call-policy", { files: [{ path: ".ssh/id_rsa" }] }, undefined, undefined, {
+			cwd: workspace,
+		} as any);
+		expect((result.details as any).files[0].error).toBe(
+			'Denied by read_many policy (extension options): matches deny pattern ".ssh"',
+		);
+	});
+
+	it("loads the project policy from .pi/settings.json and rejects malformed ones", async () => {
+		expect(await loadProjectPolicy(workspace)).toBeUndefined();
+
+		await mkdir(join(workspace, ".pi"));
+		await writeFile(join(workspace, ".pi", "settings.json"), JSON.stringify({ readMany: { deny: [".env"] } }));
+		expect(await loadProjectPolicy(workspace)).toEqual({
+			policy: { deny: [".env"] },
+			source: join(".pi", "settings.json"),
+		});
+
+		await writeFile(join(workspace, ".pi", "settings.json"), JSON.stringify({ readMany: { deny: ".env" } }));
+		await expect(loadProjectPolicy(workspace)).rejects.toThrow("allow and deny must be arrays of globs");
+	});
+
+	it("returns denied files as error blocks and masks secrets in the rest", async () => {
+		await mkdir(join(workspace, ".pi"));
+		await writeFile(join(workspace, ".pi", "settings.json"), JSON.stringify({ readMany: { redactSecrets: true } }));
+		const tool = createReadManyTool(undefined, { policy: { deny: ["*.key"], confineToWorkspace: true } });
+
+		const result = await tool.execute(
+			"call-policy",
+			{ files: [{ path: "src" }, { path: ".env" }, { path: "../outside.txt" }] },
+			undefined,
+			undefined,
+			{ cwd: workspace } as any,
+		);
+
+		const details = result.details as any;
+		const records = parseReadManyOutput((result.content[0] as any).text);
+		expect(records.map((record) => record.path)).toEqual(["src/a.ts", "src/link.ts", ".env", "../outside.txt"]);
+		expect(details.files[1].error).toBe(
+			`Denied by read_many policy (extension options): outside the workspace root ${workspace}`,
+		);
+		expect(records[2].body).toBe("API_KEY=[REDACTED]\nDEBUG=true");
+		expect(details.files[2].redactionCount).toBe(1);
+		expect(details.files[0].redactionCount).toBe(0);
+		expect(details.files[3].error).toContain("outside the workspace root");
+	});
+});
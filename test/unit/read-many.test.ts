@@ -1,7 +1,22 @@
-import { DEFAULT_MAX_BYTES } from "@mariozechner/pi-coding-agent";
+import { execFileSync } from "node:child_process";
+import { access, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createReadTool,
+	DEFAULT_MAX_BYTES,
+	DEFAULT_MAX_LINES,
+	type ReadOperations,
+	type ReadToolOptions,
+} from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
+import { OUTLINE_NOTICE, OUTPUT_FORMATS } from "../../formats.js";
+import { parseReadManyOutput } from "../../parse.js";
+import { createReadCache } from "../../read-cache.js";
 import { __test, createReadManyTool } from "../../read-many.js";
 
+const heredoc = OUTPUT_FORMATS.heredoc;
+
 const {
 	measureText,
 	createPathHash,
@@ -9,21 +24,77 @@ const {
 	formatContentBlock,
 	buildPartialSection,
 	buildPlan,
+	selectOptimalSubset,
+	buildContinuation,
+	mergeRanges,
+	runInRequestOrder,
+	resolveBudget,
 } = __test as {
 	measureText: (text: string) => { bytes: number; lines: number };
 	createPathHash: (path: string) => string;
 	pickDelimiter: (path: string, index: number, content: string) => string;
 	formatContentBlock: (path: string, body: string, index: number) => string;
-	buildPartialSection: (candidate: any, remainingLines: number, remainingBytes: number) => string | undefined;
-	buildPlan: (strategy: "request-order" | "smallest-first", order: number[], candidates: any[]) => any;
+	buildPartialSection: (
+		candidate: any,
+		remainingLines: number,
+		remainingBytes: number,
+		format: typeof heredoc,
+	) =>
+		| {
+				text: string;
+				metrics: { bytes: number; lines: number };
+				shown: Array<{ start: number; end: number }>;
+		  }
+		| undefined;
+	buildPlan: (
+		strategy: "request-order" | "smallest-first",
+		order: number[],
+		candidates: any[],
+		budget: { maxBytes: number; maxLines: number },
+		format: typeof heredoc,
+	) => any;
+	selectOptimalSubset: (
+		candidates: any[],
+		budget: { maxBytes: number; maxLines: number },
+		format: typeof heredoc,
+	) => number[];
+	buildContinuation: (
+		plan: any,
+		candidates: any[],
+	) => { files: Array<{ path: string; offset?: number; limit?: number }> } | undefined;
+	mergeRanges: (request: {
+		path: string;
+		offset?: number;
+		limit?: number;
+		ranges?: Array<{ offset: number; limit?: number }>;
+	}) => Array<{ offset: number; limit?: number }> | undefined;
+	runInRequestOrder: <T>(
+		count: number,
+		concurrency: number,
+		task: (index: number) => Promise<T>,
+		shouldStop: (result: T) => boolean,
+		signal: AbortSignal | undefined,
+	) => Promise<T[]>;
+	resolveBudget: (
+		requested: { maxBytes?: number; maxLines?: number },
+		options: {
+			defaultBudget?: { maxBytes?: number; maxLines?: number };
+			budgetCeiling?: { maxBytes?: number; maxLines?: number };
+		},
+	) => { maxBytes: number; maxLines: number };
 };
 
+const defaultBudget = { maxBytes: DEFAULT_MAX_BYTES, maxLines: DEFAULT_MAX_LINES };
+
 type StubReadResult = {
 	content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }>;
 	details?: any;
 };
 
-function createToolWithMap(map: Record<string, StubReadResult | Error>) {
+function createToolWithMap(
+	map: Record<string, StubReadResult | Error>,
+	options?: Parameters<typeof createReadManyTool>[1],
+) {
 	const readTool = {
 		execute: async (_toolCallId: string, input: { path: string }) => {
 			const value = map[input.path];
@@ -37,17 +108,38 @@ function createToolWithMap(map: Record<string, StubReadResult | Error>) {
 		},
 	};
 
+	return createReadManyTool(() => readTool as any, options);
+}
+
+type ReadInput = { path: string; offset?: number; limit?: number };
+
+// Read stub that honors offset/limit over in-memory line arrays and records every input.
+function createLineTool(linesByPath: Record<string, string[]>, inputs: ReadInput[] = []) {
+	const readTool = {
+		execute: async (_toolCallId: string, input: ReadInput) => {
+			inputs.push(input);
+			const lines = linesByPath[input.path];
+			const start = (input.offset ?? 1) - 1;
+			const end = input.limit !== undefined ? start + input.limit : lines.length;
+			return { content: [{ type: "text", text: lines.slice(start, end).join("\n") }] };
+		},
+	};
+
 	return createReadManyTool(() => readTool as any);
 }
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 function makeCandidate(path: string, text: string, ok: boolean, index: number, body?: string) {
 	return {
 		index,
 		path,
+		request: { path },
 		ok,
 		fullText: text,
 		fullMetrics: measureText(text),
 		body,
+		partialMode: "head",
 	};
 }
 
@@ -77,6 +169,13 @@ describe("read_many: helper logic", () => {
 		expect(picked.startsWith(`${base}_`)).toBe(true);
 	});
 
+	it("cycles delimiter words past 26 files while keeping delimiters unique", () => {
+		const delimiters = Array.from({ length: 200 }, (_, i) => pickDelimiter("/same/path.ts", i + 1, ""));
+		expect(new Set(delimiters).size).toBe(200);
+		expect(delimiters[26]).toBe(`PINE_27_${createPathHash("/same/path.ts")}`);
+		expect(delimiters[199]).toMatch(/^[A-Z]+_200_[0-9A-F]{6}$/);
+	});
+
 	it("formats heredoc blocks with matching closing delimiter", () => {
 		const block = formatContentBlock("/tmp/file.txt", "line 1\nline 2", 3);
 		const lines = block.split("\n");
@@ -90,13 +189,63 @@ describe("read_many: helper logic", () => {
 	it("builds a partial section that stays within remaining budgets", () => {
 		const body = Array.from({ length: 200 }, (_, i) => `line-${i}-${"x".repeat(20)}`).join("\n");
 		const candidate = makeCandidate("/tmp/large.txt", "ignored", true, 0, body);
-		const partial = buildPartialSection(candidate, 40, 1500);
+		const partial = buildPartialSection(candidate, 40, 1500, heredoc);
 		expect(partial).toBeDefined();
 
-		const metrics = measureText(partial ?? "");
+		const metrics = measureText(partial?.text ?? "");
+		expect(partial?.metrics).toEqual(metrics);
 		expect(metrics.lines).toBeLessThanOrEqual(40);
 		expect(metrics.bytes).toBeLessThanOrEqual(1500);
-		expect(partial).toContain("@/tmp/large.txt");
+		expect(partial?.text).toContain("@/tmp/large.txt");
+		const shownLines = metrics.lines - 4; // wrapper lines plus the partial marker
+		expect(partial?.shown).toEqual([{ start: 0, end: shownLines }]);
+		expect(partial?.text).toContain(`\n[Partial block: first ${shownLines} line(s) shown]\n`);
+	});
+
+	it("keeps the tail, or head and tail, of a partial section with an elision marker", () => {
+		const body = Array.from({ length: 200 }, (_, i) => `line-${i + 1}`).join("\n");
+		const candidate = (partialMode: string) => ({
+			...makeCandidate("/tmp/app.log", "ignored", true, 0, body),
+			segments: [{ range: { offset: 1 }, lines: 200 }],
+			partialMode,
+		});
+
+		const tail = buildPartialSection(candidate("tail"), 40, 1500, heredoc);
+		expect(tail?.metrics.lines).toBeLessThanOrEqual(40);
+		expect(tail?.metrics.bytes).toBeLessThanOrEqual(1500);
+		const [{ start }] = tail?.shown ?? [];
+		expect(tail?.shown).toEqual([{ start, end: 200 }]);
+		expect(tail?.text).toContain(`<<'PINE_1_${createPathHash("/tmp/app.log")}'\n[... ${start} line(s) elided ...]\nline-${start + 1}\n`);
+		expect(tail?.text).toContain(`line-200\n[Partial block: line(s) ${start + 1}-200 shown]\n`);
+
+		const both = buildPartialSection(candidate("head+tail"), 40, 1500, heredoc);
+		expect(both?.metrics.lines).toBeLessThanOrEqual(40);
+		const [head, end] = both?.shown ?? [];
+		expect(head.start).toBe(0);
+		expect(end.end).toBe(200);
+		expect(both?.text).toContain(`line-${head.end}\n[... ${end.start - head.end} line(s) elided ...]\nline-${end.start + 1}\n`);
+		expect(both?.text).toContain(`[Partial block: line(s) 1-${head.end}, ${end.start + 1}-200 shown]`);
+	});
+
+	it("counts only requested lines in the elision marker of a cut multi-range read", () => {
+		const first = Array.from({ length: 50 }, (_, i) => `line-${i + 1}`);
+		const second = Array.from({ length: 50 }, (_, i) => `line-${i + 100}`);
+		const body = [...first, "[... lines 51-99 elided ...]", ...second].join("\n");
+		const candidate = {
+			...makeCandidate("/tmp/app.log", "ignored", true, 0, body),
+			segments: [
+				{ range: { offset: 1, limit: 50 }, lines: 50 },
+				{ range: { offset: 100, limit: 50 }, lines: 50 },
+			],
+			partialMode: "tail",
+		};
+
+		const tail = buildPartialSection(candidate, 30, 1500, heredoc);
+		const [{ start }] = tail?.shown ?? [];
+		const firstShown = start - 51 + 100; // file line of the first shown body line, past the marker
+		expect(firstShown).toBeGreaterThan(100);
+		// All of the first range plus the second range's lines before the tail; lines 51-99 were never requested.
+		expect(tail?.text).toContain(`\n[... ${50 + firstShown - 100} line(s) elided ...]\nline-${firstShown}\n`);
 	});
 
 	it("uses strict request-order full packing (stops on first non-fitting full block)", () => {
@@ -107,21 +256,183 @@ describe("read_many: helper logic", () => {
 			makeCandidate("/c", "small-c", true, 2),
 		];
 
-		const requestPlan = buildPlan("request-order", [0, 1, 2], candidates);
+		const requestPlan = buildPlan("request-order", [0, 1, 2], candidates, defaultBudget, heredoc);
 		expect(requestPlan.fullIncluded.has(0)).toBe(true);
 		expect(requestPlan.fullIncluded.has(2)).toBe(false);
 
-		const smallestPlan = buildPlan("smallest-first", [0, 2, 1], candidates);
+		const smallestPlan = buildPlan("smallest-first", [0, 2, 1], candidates, defaultBudget, heredoc);
 		expect(smallestPlan.fullIncluded.has(2)).toBe(true);
 	});
 
+	it("packs against the budget it is given", () => {
+		const candidates = [
+			makeCandidate("/a", "a".repeat(60), true, 0),
+			makeCandidate("/b", "b".repeat(60), true, 1),
+		];
+		const plan = buildPlan("request-order", [0, 1], candidates, { maxBytes: 100, maxLines: 100 }, heredoc);
+		expect(plan.fullIncluded.has(0)).toBe(true);
+		expect(plan.fullIncluded.has(1)).toBe(false);
+		expect(plan.usedBytes).toBeLessThanOrEqual(100);
+	});
+
+	it("selects the subset with the highest total priority, not the greedy one", () => {
+		const withPriority = (candidate: any, priority: number) => ({
+			...candidate,
+			request: { path: candidate.path, priority },
+		});
+		const candidates = [
+			withPriority(makeCandidate("/a", "a".repeat(60), true, 0), 3),
+			withPriority(makeCandidate("/b", "b".repeat(50), true, 1), 2),
+			withPriority(makeCandidate("/c", "c".repeat(50), true, 2), 2),
+		];
+		// A alone (priority 3) blocks both others; B and C together fit with their separator.
+		expect(selectOptimalSubset(candidates, { maxBytes: 110, maxLines: 100 }, heredoc)).toEqual([1, 2]);
+		expect(selectOptimalSubset(candidates, { maxBytes: 101, maxLines: 100 }, heredoc)).toEqual([0]);
+	});
+
+	it("never trades a required file for optional ones", () => {
+		const candidates = [
+			{ ...makeCandidate("/x", "x".repeat(40), true, 0), request: { path: "/x", priority: 10 } },
+			{ ...makeCandidate("/y", "y".repeat(40), true, 1), request: { path: "/y", priority: 10 } },
+			{ ...makeCandidate("/req", "r".repeat(70), true, 2), request: { path: "/req", required: true } },
+		];
+		expect(selectOptimalSubset(candidates, { maxBytes: 100, maxLines: 100 }, heredoc)).toEqual([2]);
+	});
+
+	it("keeps optimal selections within large, scaled budgets", () => {
+		const candidates = Array.from({ length: 60 }, (_, i) => ({
+			...makeCandidate(`/f${i}`, "z".repeat(500 + i * 37), true, i),
+			request: { path: `/f${i}`, priority: 1 + (i % 7) },
+		}));
+		const budget = { maxBytes: 10_000, maxLines: 2000 };
+		const selected = selectOptimalSubset(candidates, budget, heredoc);
+		const separatorBytes = 2 * (selected.length - 1);
+		const usedBytes = selected.reduce((total, i) => total + candidates[i].fullMetrics.bytes, separatorBytes);
+		expect(selected.length).toBeGreaterThan(0);
+		expect(usedBytes).toBeLessThanOrEqual(budget.maxBytes);
+	});
+
+	it("builds continuation entries for partial and omitted files", () => {
+		const body = Array.from({ length: 100 }, (_, i) => `line-${i + 1}`).join("\n");
+		const candidates = [
+			makeCandidate("/small", "x".repeat(40), true, 0),
+			{
+				...makeCandidate("/big", formatContentBlock("/big", body, 2), true, 1, body),
+				request: { path: "/big", offset: 11, limit: 100 },
+				segments: [{ range: { offset: 11, limit: 100 }, lines: 100 }],
+			},
+			makeCandidate("/rest", "y".repeat(40), true, 2),
+		];
+
+		const plan = buildPlan("request-order", [0, 1, 2], candidates, { maxBytes: 10_000, maxLines: 30 }, heredoc);
+		expect(plan.partialSections.map((section: any) => section.index)).toEqual([1]);
+		const [{ end: shownLines }] = plan.partialSections[0].shown;
+		expect(plan.partialSections[0].text).toContain(`line-${shownLines}\n`);
+		expect(plan.partialSections[0].text).toContain(`[Partial block: line(s) 11-${10 + shownLines} shown]`);
+
+		expect(buildContinuation(plan, candidates)).toEqual({
+			files: [
+				{ path: "/big", offset: 11 + shownLines, limit: 100 - shownLines },
+				{ path: "/rest" },
+			],
+		});
+	});
+
+	it("returns no continuation when everything fits", () => {
+		const candidates = [makeCandidate("/a", "a", true, 0), makeCandidate("/b", "b", true, 1)];
+		const plan = buildPlan("request-order", [0, 1], candidates, defaultBudget, heredoc);
+		expect(buildContinuation(plan, candidates)).toBeUndefined();
+	});
+
+	it("merges overlapping and adjacent ranges in line order", () => {
+		expect(mergeRanges({ path: "/a" })).toBeUndefined();
+		expect(
+			mergeRanges({
+				path: "/a",
+				ranges: [
+					{ offset: 300, limit: 61 },
+					{ offset: 1, limit: 40 },
+					{ offset: 30, limit: 20 },
+					{ offset: 50, limit: 5 },
+					{ offset: 340, limit: 10 },
+				],
+			}),
+		).toEqual([
+			{ offset: 1, limit: 54 },
+			{ offset: 300, limit: 61 },
+		]);
+		const withOffset = mergeRanges({ path: "/a", offset: 90, ranges: [{ offset: 10, limit: 5 }, { offset: 100 }] });
+		expect(withOffset).toEqual([
+			{ offset: 10, limit: 5 },
+			{ offset: 90 },
+		]);
+	});
+
+	it("bounds in-flight tasks and returns results in index order", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const delays = [30, 5, 20, 1, 10, 1];
+		const results = await runInRequestOrder(
+			delays.length,
+			2,
+			async (index) => {
+				inFlight += 1;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await sleep(delays[index]);
+				inFlight -= 1;
+				return index;
+			},
+			() => false,
+			undefined,
+		);
+		expect(results).toEqual([0, 1, 2, 3, 4, 5]);
+		expect(maxInFlight).toBe(2);
+	});
+
+	it("stops scheduling after a stopping result and drops later results", async () => {
+		const started: number[] = [];
+		const results = await runInRequestOrder(
+			6,
+			3,
+			async (index) => {
+				started.push(index);
+				// Index 2 fails first; index 1 is slower and fails later, so it must win in request order.
+				await sleep(index === 1 ? 30 : 1);
+				return { index, failed: index === 1 || index === 2 };
+			},
+			(result) => result.failed,
+			undefined,
+		);
+		expect(results.map((result) => result.index)).toEqual([0, 1]);
+		expect(started).not.toContain(5);
+	});
+
+	it("resolves budgets from call, extension default and ceiling", () => {
+		expect(resolveBudget({}, {})).toEqual(defaultBudget);
+		expect(resolveBudget({}, { defaultBudget: { maxBytes: 1000 } })).toEqual({
+			maxBytes: 1000,
+			maxLines: DEFAULT_MAX_LINES,
+		});
+		expect(resolveBudget({ maxBytes: 500, maxLines: 10.7 }, { defaultBudget: { maxBytes: 1000 } })).toEqual({
+			maxBytes: 500,
+			maxLines: 10,
+		});
+		expect(
+			resolveBudget(
+				{ maxBytes: 10_000_000 },
+				{ defaultBudget: { maxLines: 99_999 }, budgetCeiling: { maxBytes: 4096, maxLines: 50 } },
+			),
+		).toEqual({ maxBytes: 4096, maxLines: 50 });
+		expect(resolveBudget({ maxBytes: 0, maxLines: -5 }, {})).toEqual({ maxBytes: 1, maxLines: 1 });
+	});
+
 	it("counts successful full blocks separately from total full blocks", () => {
 		const candidates = [
 			makeCandidate("/ok-1", "x", true, 0),
 			makeCandidate("/err", "y", false, 1),
 			makeCandidate("/ok-2", "z", true, 2),
 		];
-		const plan = buildPlan("request-order", [0, 1, 2], candidates);
+		const plan = buildPlan("request-order", [0, 1, 2], candidates, defaultBudget, heredoc);
 		expect(plan.fullCount).toBe(3);
 		expect(plan.fullSuccessCount).toBe(2);
 	});
@@ -228,6 +539,7 @@ describe("read_many: execute behavior", () => {
 			"call-4",
 			{
 				files: [{ path: "/img" }],
+				maxImages: 0,
 			},
 			undefined,
 			undefined,
@@ -239,6 +551,43 @@ describe("read_many: execute behavior", () => {
 		expect(text).toContain("Read image file [image/png]");
 		expect(text).toContain("[1 image attachment(s) omitted; use read on this file for image payload.]");
 		expect(details.files[0].imageCount).toBe(1);
+		expect(result.content).toHaveLength(1);
+	});
+
+	it("attaches images after the text within the image budget", async () => {
+		const image = (data: string): StubReadResult => ({
+			content: [
+				{ type: "text", text: "Read image file [image/png]" },
+				{ type: "image", data, mimeType: "image/png" },
+			],
+		});
+		const tool = createToolWithMap({
+			"/a.png": image("AAAA"),
+			"/page.tsx": { content: [{ type: "text", text: "export const Page = () => null;" }] },
+			"/big.png": image("A".repeat(4000)),
+			"/b.png": image("BBBB"),
+		});
+
+		const result = await tool.execute(
+			"call-images",
+			{ files: [{ path: "/a.png" }, { path: "/page.tsx" }, { path: "/big.png" }, { path: "/b.png" }], maxImageBytes: 100 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const [a, , big, b] = parseReadManyOutput((result.content[0] as any).text);
+		expect(a.body).toBe("Read image file [image/png]\n[Image attachment #1 (image/png, 3B) follows the file blocks]");
+		expect(big.body).toContain("[1 image attachment(s) omitted; use read on this file for image payload.]");
+		expect(b.body).toContain("[Image attachment #2 (image/png, 3B) follows the file blocks]");
+		expect(result.content.slice(1)).toEqual([
+			{ type: "text", text: "[Image attachment #1: /a.png]" },
+			{ type: "image", data: "AAAA", mimeType: "image/png" },
+			{ type: "text", text: "[Image attachment #2: /b.png]" },
+			{ type: "image", data: "BBBB", mimeType: "image/png" },
+		]);
+		const details = result.details as any;
+		expect(details.files.map((file: any) => file.attachedImageCount)).toEqual([1, undefined, undefined, 1]);
 	});
 
 	it("keeps combinedTruncation undefined when packed output already fits", async () => {
@@ -259,5 +608,937 @@ describe("read_many: execute behavior", () => {
 
 		const details = result.details as any;
 		expect(details.combinedTruncation).toBeUndefined();
+		expect(details.packing.budget).toEqual(defaultBudget);
+	});
+
+	it("applies call-level maxBytes/maxLines within the extension ceiling", async () => {
+		const body = Array.from({ length: 50 }, (_, i) => `line-${i}`).join("\n");
+		const tool = createToolWithMap(
+			{
+				"/a": { content: [{ type: "text", text: body }] },
+				"/b": { content: [{ type: "text", text: body }] },
+			},
+			{ defaultBudget: { maxLines: 30 }, budgetCeiling: { maxLines: 80 } },
+		);
+
+		const withDefault = await tool.execute(
+			"call-6",
+			{ files: [{ path: "/a" }, { path: "/b" }] },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+		const defaultDetails = withDefault.details as any;
+		expect(defaultDetails.packing.budget).toEqual({ maxBytes: DEFAULT_MAX_BYTES, maxLines: 30 });
+		expect(defaultDetails.packing.fullIncludedCount).toBe(0);
+		expect(measureText((withDefault.content[0] as any).text).lines).toBeLessThanOrEqual(30);
+
+		const withOverride = await tool.execute(
+			"call-7",
+			{ files: [{ path: "/a" }, { path: "/b" }], maxLines: 500, maxBytes: 2048 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+		const overrideDetails = withOverride.details as any;
+		expect(overrideDetails.packing.budget).toEqual({ maxBytes: 2048, maxLines: 80 });
+		expect(overrideDetails.packing.fullIncludedCount).toBe(1);
+		expect(overrideDetails.packing.partialIncludedPath).toBe("/b");
+	});
+
+	it("reports a continuation cursor in details and text, and accepts it as continueFrom", async () => {
+		const inputs: ReadInput[] = [];
+		const lines = Array.from({ length: 60 }, (_, i) => `line-${i + 1}`);
+		const tool = createLineTool({ "/a": lines, "/b": lines, "/c": lines }, inputs);
+
+		const first = await tool.execute(
+			"call-8",
+			{ files: [{ path: "/a" }, { path: "/b" }], maxLines: 40 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+		const text = (first.content[0] as any).text as string;
+		const continuation = (first.details as any).packing.continuation;
+		expect(measureText(text).lines).toBeLessThanOrEqual(40);
+		expect(continuation.files).toHaveLength(2);
+		expect(continuation.files[0].path).toBe("/a");
+		expect(text).toContain(`line-${continuation.files[0].offset - 1}\n`);
+		expect(text).not.toContain(`line-${continuation.files[0].offset}\n`);
+		expect(continuation.files[1]).toEqual({ path: "/b" });
+		expect(text.endsWith(`continueFrom: ${JSON.stringify(continuation)}]`)).toBe(true);
+
+		inputs.length = 0;
+		const second = await tool.execute(
+			"call-9",
+			{ continueFrom: continuation, files: [{ path: "/c", limit: 1 }] },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+		expect(inputs.map((input) => input.path)).toEqual(["/a", "/b", "/c"]);
+		expect(inputs[0].offset).toBe(continuation.files[0].offset);
+		expect((second.details as any).packing.continuation).toBeUndefined();
+	});
+
+	it("renders multiple ranges as one block with elision markers", async () => {
+		const inputs: ReadInput[] = [];
+		const lines = Array.from({ length: 400 }, (_, i) => `line-${i + 1}`);
+		const tool = createLineTool({ "/a": lines }, inputs);
+
+		const result = await tool.execute(
+			"call-11",
+			{
+				files: [
+					{
+						path: "/a",
+						ranges: [
+							{ offset: 300, limit: 61 },
+							{ offset: 1, limit: 40 },
+							{ offset: 41, limit: 2 },
+						],
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(inputs).toEqual([
+			{ path: "/a", offset: 1, limit: 42 },
+			{ path: "/a", offset: 300, limit: 61 },
+		]);
+		expect(text.match(/^@\/a$/gm)).toHaveLength(1);
+		expect(text).toContain("line-42\n[... lines 43-299 elided ...]\nline-300\n");
+		expect(text).toContain("line-360\n");
+		expect(text).not.toContain("line-361");
+		expect(details.files[0].ranges).toEqual([
+			{ offset: 1, limit: 42 },
+			{ offset: 300, limit: 61 },
+		]);
+	});
+
+	it("continues a cut multi-range block from the first unshown line", async () => {
+		const lines = Array.from({ length: 400 }, (_, i) => `line-${i + 1}`);
+		const tool = createLineTool({ "/a": lines });
+
+		const result = await tool.execute(
+			"call-12",
+			{
+				files: [
+					{
+						path: "/a",
+						ranges: [
+							{ offset: 1, limit: 10 },
+							{ offset: 100, limit: 50 },
+							{ offset: 300, limit: 20 },
+						],
+					},
+				],
+				maxLines: 40,
+			},
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const continuation = (result.details as any).packing.continuation;
+		const [next] = continuation.files;
+		expect(next.path).toBe("/a");
+		expect(next.ranges[0].offset).toBeGreaterThan(100);
+		expect(next.ranges[0].offset + next.ranges[0].limit).toBe(150);
+		expect(next.ranges[1]).toEqual({ offset: 300, limit: 20 });
+		expect(text).toContain(`line-${next.ranges[0].offset - 1}\n`);
+		expect(text).not.toContain(`line-${next.ranges[0].offset}\n`);
+	});
+
+	it("reads concurrently but keeps blocks and details in request order", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const readTool = {
+			execute: async (_toolCallId: string, input: { path: string }) => {
+				inFlight += 1;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await sleep(input.path === "/a" ? 30 : 1);
+				inFlight -= 1;
+				if (input.path === "/c") {
+					throw new Error("missing c");
+				}
+				return { content: [{ type: "text", text: `body ${input.path}` }] };
+			},
+		};
+		const tool = createReadManyTool(() => readTool as any, { concurrency: 3 });
+
+		const result = await tool.execute(
+			"call-13",
+			{ files: [{ path: "/a" }, { path: "/b" }, { path: "/c" }, { path: "/d" }] },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(maxInFlight).toBe(3);
+		expect(details.files.map((file: any) => [file.path, file.ok])).toEqual([
+			["/a", true],
+			["/b", true],
+			["/c", false],
+			["/d", true],
+		]);
+		expect(text.indexOf("@/a")).toBeLessThan(text.indexOf("@/b"));
+		expect(text.indexOf("@/c")).toBeLessThan(text.indexOf("@/d"));
+		expect(text).toMatch(/^@\/c\n<<'ORBIT_3_/m);
+	});
+
+	it("discards results after the first failure in request order with stopOnError", async () => {
+		const readTool = {
+			execute: async (_toolCallId: string, input: { path: string }) => {
+				await sleep(input.path === "/bad" ? 20 : 1);
+				if (input.path === "/bad") {
+					throw new Error("boom");
+				}
+				return { content: [{ type: "text", text: `body ${input.path}` }] };
+			},
+		};
+		const tool = createReadManyTool(() => readTool as any, { concurrency: 4 });
+
+		const result = await tool.execute(
+			"call-14",
+			{ files: [{ path: "/ok" }, { path: "/bad" }, { path: "/late-1" }, { path: "/late-2" }], stopOnError: true },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(details.processedCount).toBe(2);
+		expect(details.files.map((file: any) => file.path)).toEqual(["/ok", "/bad"]);
+		expect(text).not.toContain("@/late-1");
+	});
+
+	it("throws when aborted while reads are in flight", async () => {
+		const controller = new AbortController();
+		const readTool = {
+			execute: async () => {
+				controller.abort();
+				await sleep(1);
+				return { content: [{ type: "text", text: "x" }] };
+			},
+		};
+		const tool = createReadManyTool(() => readTool as any, { concurrency: 2 });
+
+		const execution = tool.execute(
+			"call-15",
+			{ files: [{ path: "/a" }, { path: "/b" }, { path: "/c" }] },
+			controller.signal,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+		await expect(execution).rejects.toThrow("Operation aborted");
+	});
+
+	it("streams per-file progress through onUpdate without changing the final result", async () => {
+		const files = { "/a": { content: [{ type: "text" as const, text: "a\nb" }] }, "/e": new Error("missing") };
+		const params = { files: [{ path: "/a" }, { path: "/e" }] };
+		const updates: any[] = [];
+
+		const silent = await createToolWithMap(files).execute("call-16", params, undefined, undefined, {
+			cwd: "/",
+		} as any);
+		const streamed = await createToolWithMap(files).execute(
+			"call-16",
+			params,
+			undefined,
+			(update: any) => updates.push(update),
+			{ cwd: "/" } as any,
+		);
+
+		expect(streamed).toEqual(silent);
+		expect(updates).toHaveLength(2);
+		const last = updates[1].details.progress;
+		expect(last).toMatchObject({ totalCount: 2, doneCount: 2, successCount: 1, errorCount: 1 });
+		expect(last.lines).toBe(5 + 4); // two-line body and one-line error, each plus 3 wrapper lines
+		expect(updates[0].details.progress.doneCount).toBe(1);
+		expect(updates[1].content[0].text).toMatch(/^Read 2\/2 files \(1 ok, 1 failed\)/);
+	});
+
+	it("packs by priority so a small config file cannot push out the requested module", async () => {
+		const lines = (count: number, prefix: string) =>
+			Array.from({ length: count }, (_, i) => `${prefix}-${i}`).join("\n");
+		const map: Record<string, StubReadResult> = {
+			"/config.json": { content: [{ type: "text", text: lines(40, "config") }] },
+			"/module.ts": { content: [{ type: "text", text: lines(900, "module") }] },
+		};
+		const run = async (module: Record<string, unknown>) => {
+			const result = await createToolWithMap(map).execute(
+				"call-priority",
+				{ files: [{ path: "/config.json" }, { path: "/module.ts", ...module }], maxLines: 920 },
+				undefined,
+				undefined,
+				{ cwd: "/" } as any,
+			);
+			return result.details as any;
+		};
+
+		const plain = await run({});
+		expect(plain.packing.strategy).toBe("request-order");
+		expect(plain.files.map((file: any) => file.inclusion)).toEqual(["full", "partial"]);
+
+		for (const module of [{ priority: 5 }, { required: true }]) {
+			const details = await run(module);
+			expect(details.packing.strategy).toBe("optimal");
+			expect(details.files.map((file: any) => file.inclusion)).toEqual(["partial", "full"]);
+			expect(details.packing.continuation.files[0].path).toBe("/config.json");
+		}
+	});
+
+	it("gives every file a proportional slice in fair-share mode", async () => {
+		const lines = (count: number, prefix: string) =>
+			Array.from({ length: count }, (_, i) => `${prefix}-${i + 1}`).join("\n");
+		const tool = createLineTool({
+			"/small": lines(10, "small").split("\n"),
+			"/huge": lines(5000, "huge").split("\n"),
+			"/medium": lines(200, "medium").split("\n"),
+			"/large": lines(1200, "large").split("\n"),
+		});
+		const files = [{ path: "/small" }, { path: "/huge" }, { path: "/medium" }, { path: "/large", offset: 101 }];
+
+		const params = { files, strategy: "fair-share" as const, maxLines: 800 };
+		const result = await tool.execute("call-fair", params, undefined, undefined, { cwd: "/" } as any);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(details.packing.strategy).toBe("fair-share");
+		expect(details.files.map((file: any) => file.inclusion)).toEqual(["full", "partial", "full", "partial"]);
+		expect(text.split("\n").length).toBeLessThanOrEqual(800);
+
+		const partials = details.packing.partials;
+		expect(partials.map((partial: any) => partial.path)).toEqual(["/huge", "/large"]);
+		const [huge, large] = partials.map((partial: any) => partial.ranges[0]);
+		expect(huge.offset).toBe(1);
+		expect(large.offset).toBe(101);
+		// The two oversized files split what the full ones left over evenly.
+		expect(Math.abs(huge.limit - large.limit)).toBeLessThanOrEqual(1);
+		expect(text).toContain(`[Partial block: line(s) 1-${huge.limit} shown]`);
+		expect(text).toContain(`[Partial block: line(s) 101-${100 + large.limit} shown]`);
+		expect(details.packing.continuation.files).toEqual([
+			{ path: "/huge", offset: 1 + huge.limit },
+			{ path: "/large", offset: 101 + large.limit },
+		]);
+	});
+
+	it("pages plain reads past the read tool's limits up to the call's budget", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-page-"));
+		try {
+			await writeFile(join(dir, "app.log"), Array.from({ length: 10_000 }, (_, i) => `log-${i + 1}`).join("\n"));
+			const tool = createReadManyTool();
+			const run = async (params: Record<string, unknown>) => {
+				const result = await tool.execute("call-page", params, undefined, undefined, { cwd: dir } as any);
+				return { text: (result.content[0] as any).text as string, details: result.details as any };
+			};
+
+			const limited = await run({ files: [{ path: "app.log", offset: 3001, limit: 5000 }], maxLines: 6000 });
+			const [body] = parseReadManyOutput(limited.text).map((record) => record.body.split("\n"));
+			expect(limited.details.files[0].inclusion).toBe("full");
+			expect(body.slice(0, 1)).toEqual(["log-3001"]);
+			expect(body.slice(-3)).toEqual(["log-8000", "", "[2000 more lines in file. Use offset=8001 to continue.]"]);
+
+			// A page as large as the budget leaves no room for the block around it, so it is cut to a partial block.
+			const budgeted = await run({ files: [{ path: "app.log" }], maxLines: 4000, maxBytes: 200 * 1024 });
+			const [shown] = budgeted.details.packing.partials[0].ranges;
+			expect(shown.offset).toBe(1);
+			expect(shown.limit).toBeGreaterThan(3900);
+			expect(budgeted.details.packing.continuation.files).toEqual([{ path: "app.log", offset: shown.limit + 1 }]);
+			expect(budgeted.text).toContain(`\nlog-${shown.limit}\n[Partial block:`);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("reads the end of files the read tool truncates in tail mode", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-tail-"));
+		try {
+			await writeFile(join(dir, "app.log"), Array.from({ length: 5000 }, (_, i) => `log-${i + 1}`).join("\n"));
+			const tool = createReadManyTool();
+			const result = await tool.execute(
+				"call-tail",
+				{ files: [{ path: "app.log", partialMode: "tail" }], maxLines: 100 },
+				undefined,
+				undefined,
+				{ cwd: dir } as any,
+			);
+
+			const text = (result.content[0] as any).text as string;
+			const details = result.details as any;
+			const [shown] = details.packing.partials[0].ranges;
+			expect(shown.offset + shown.limit - 1).toBe(5000);
+			expect(text).toContain(`[... ${shown.offset - 1} line(s) elided ...]\nlog-${shown.offset}\n`);
+			expect(text).toContain("\nlog-5000\n[Partial block:");
+			expect(details.packing.continuation.files).toEqual([
+				{
+					path: "app.log",
+					partialMode: "tail",
+					ranges: [
+						{ offset: 1, limit: 3000 },
+						{ offset: 3001, limit: shown.offset - 3001 },
+					],
+				},
+			]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("outlines omitted files with file line numbers when the outline fits", async () => {
+		// Line 100 is too long for any partial block, so /b.ts read from there is omitted, not cut.
+		const module = Array.from({ length: 400 }, (_, i) =>
+			i === 99 ? `// ${"x".repeat(3000)}` : i % 100 === 0 ? `export function part${i / 100}() {` : `\t// ${i}`,
+		);
+		const tool = createLineTool({
+			"/a.ts": Array.from({ length: 5 }, (_, i) => `a-${i}`),
+			"/b.ts": module,
+		});
+		const run = async (maxLines: number) => {
+			const files = [{ path: "/a.ts" }, { path: "/b.ts", offset: 100 }];
+			const params = { files, maxLines, maxBytes: 2048 };
+			const result = await tool.execute("call-outline", params, undefined, undefined, { cwd: "/" } as any);
+			return { text: (result.content[0] as any).text as string, details: result.details as any };
+		};
+
+		const { text, details } = await run(100);
+		expect(details.files.map((file: any) => file.inclusion)).toEqual(["full", "outline"]);
+		expect(details.files[1].includedLines).toBeGreaterThan(0);
+		expect(text).toContain(
+			"@/b.ts (outline)\n<<'MANGO_2_" +
+				createPathHash("/b.ts") +
+				`'\n${OUTLINE_NOTICE}\n[Outline of file lines 100-400 only; structure outside them is not listed.]\n101: export function part1()\n201: export function part2()\n301: export function part3()\n`,
+		);
+		expect(details.packing.continuation.files).toEqual([{ path: "/b.ts", offset: 100 }]);
+		expect(text.split("\n").length).toBeLessThanOrEqual(100);
+
+		const tight = await run(12);
+		expect(tight.details.files[1].inclusion).toBe("omitted");
+		expect(tight.text).not.toContain("(outline)");
+	});
+
+	it("outlines only file lines, not the read tool's notice", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-outline-"));
+		try {
+			const config = Array.from({ length: 2500 }, (_, i) => (i % 500 === 0 ? `[section${i / 500}]` : `  key${i} = ${i}`));
+			await writeFile(join(dir, "big.toml"), config.join("\n"));
+			await writeFile(join(dir, "log.txt"), Array.from({ length: 500 }, (_, i) => `log-${i}`).join("\n"));
+			const tool = createReadManyTool();
+
+			const result = await tool.execute(
+				"call-outline-notice",
+				{ files: [{ path: "log.txt" }, { path: "big.toml" }], maxLines: 60 },
+				undefined,
+				undefined,
+				{ cwd: dir } as any,
+			);
+
+			const text = (result.content[0] as any).text as string;
+			expect((result.details as any).files.map((file: any) => file.inclusion)).toEqual(["partial", "outline"]);
+			const [, outline] = parseReadManyOutput(text);
+			expect(outline.body).toBe("1: [section0]\n501: [section1]\n1001: [section2]\n1501: [section3]");
+			expect(text).toContain("[Outline of file lines 1-2000 only;");
+			expect(text).not.toContain("[Showing lines");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("sizes the partial block after the outlines of omitted files, keeping full blocks", async () => {
+		const module = Array.from({ length: 400 }, (_, i) => (i % 100 === 0 ? `export function part${i / 100}() {` : `\t// ${i}`));
+		const tool = createLineTool({
+			"/a.ts": Array.from({ length: 1000 }, (_, i) => `a-${i}`),
+			"/b.ts": Array.from({ length: 400 }, (_, i) => `b-${i}`),
+			"/c.ts": module,
+		});
+
+		const result = await tool.execute(
+			"call-outline-room",
+			{ files: [{ path: "/a.ts" }, { path: "/b.ts" }, { path: "/c.ts" }], maxLines: 1100, strategy: "request-order" },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(details.files.map((file: any) => file.inclusion)).toEqual(["full", "partial", "outline"]);
+		expect(text).toContain(`${OUTLINE_NOTICE}\n1: export function part0()\n101: export function part1()\n`);
+		expect(text.split("\n").length).toBeLessThanOrEqual(1100);
+		expect(details.packing.continuation.files.map((file: any) => file.path)).toEqual(["/b.ts", "/c.ts"]);
+	});
+
+	it("filters blocks to numbered pattern matches with context, paging past the read tool's limits", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-pattern-"));
+		try {
+			const lines = Array.from({ length: 5000 }, (_, i) => `line ${i + 1}`);
+			for (const line of [10, 12, 3000, 5000]) {
+				lines[line - 1] = `needle ${line}`;
+			}
+			await writeFile(join(dir, "big.txt"), lines.join("\n"));
+			await writeFile(join(dir, "small.txt"), "needle\nhay");
+			const tool = createReadManyTool();
+			const run = async (params: Record<string, unknown>) => {
+				const result = await tool.execute("call-pattern", params, undefined, undefined, { cwd: dir } as any);
+				return { text: (result.content[0] as any).text as string, details: result.details as any };
+			};
+
+			const { text, details } = await run({
+				files: [{ path: "big.txt", context: 1 }, { path: "small.txt", pattern: "^hay$", context: 0 }],
+				pattern: "^needle",
+			});
+			const [big, small] = parseReadManyOutput(text);
+			expect(big.body).toBe(
+				[
+					"9- line 9",
+					"10: needle 10",
+					"11- line 11",
+					"12: needle 12",
+					"13- line 13",
+					"...",
+					"2999- line 2999",
+					"3000: needle 3000",
+					"3001- line 3001",
+					"...",
+					"4999- line 4999",
+					"5000: needle 5000",
+				].join("\n"),
+			);
+			expect(small.body).toBe("2: hay");
+			expect(details.files.map((file: any) => file.matchCount)).toEqual([4, 1]);
+
+			const none = await run({ files: [{ path: "small.txt", pattern: "missing" }] });
+			expect(none.text).toContain("[No lines match /missing/]");
+			expect(none.details.files[0].matchCount).toBe(0);
+
+			const invalid = await run({ files: [{ path: "small.txt", pattern: "(" }] });
+			expect(invalid.details.files[0].ok).toBe(false);
+			expect(invalid.details.files[0].error).toMatch(/Invalid regular expression/);
+			expect(invalid.details.files[0].errorCode).toBe("read_failed");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("rejects nested-repetition patterns and matches only the start of long lines", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-pattern-guard-"));
+		try {
+			await writeFile(join(dir, "slow.txt"), `${"a".repeat(40)}!\n${"x".repeat(5000)}needle`);
+			const tool = createReadManyTool();
+			const run = async (params: Record<string, unknown>) => {
+				const result = await tool.execute("call-guard", params, undefined, undefined, { cwd: dir } as any);
+				return { text: (result.content[0] as any).text as string, details: result.details as any };
+			};
+
+			for (const pattern of ["^(a+)+$", "((a*))*b", "(?:\\w{1,3})+$"]) {
+				const { details } = await run({ files: [{ path: "slow.txt", pattern }] });
+				expect(details.files[0].errorCode).toBe("read_failed");
+				expect(details.files[0].error).toMatch(/repeats a group that itself repeats/);
+			}
+			const simple = await run({ files: [{ path: "slow.txt", pattern: "(ab)+|[(+]*a+!", context: 0 }] });
+			expect(simple.details.files[0].matchCount).toBe(1);
+
+			const long = await run({ files: [{ path: "slow.txt", pattern: "needle" }] });
+			expect(long.text).toContain("[No lines match /needle/]");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("loads a file once for pattern and symbol reads that page past the read tool's limits", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-pattern-pages-"));
+		try {
+			const lines = Array.from({ length: 9000 }, (_, i) => (i % 1000 === 0 ? `export function f${i}() {}` : `const v${i} = ${i};`));
+			await writeFile(join(dir, "big.ts"), lines.join("\n"));
+			// `own` passes read_many's operations through; otherwise every page loads the file again.
+			const run = async (own: boolean, files: Record<string, unknown>[]) => {
+				const loads: string[] = [];
+				const operations: ReadOperations = {
+					readFile: (path) => readFile(path),
+					access: (path) => access(path),
+				};
+				const factory = (cwd: string, options?: ReadToolOptions) => {
+					const base = (own && options?.operations) || operations;
+					return createReadTool(cwd, {
+						operations: {
+							...base,
+							readFile: (path) => {
+								loads.push(path);
+								return base.readFile(path);
+							},
+						},
+					});
+				};
+				const result = await createReadManyTool(factory).execute("call-pages", { files }, undefined, undefined, {
+					cwd: dir,
+				} as any);
+				return { text: (result.content[0] as any).text as string, loads };
+			};
+
+			const files = [{ path: "big.ts", pattern: "^export", context: 0 }];
+			const paged = await run(false, files);
+			const loaded = await run(true, files);
+			expect(paged.loads.length).toBeGreaterThan(1);
+			expect(loaded.loads).toHaveLength(1);
+			expect(loaded.text).toBe(paged.text);
+			expect(parseReadManyOutput(loaded.text)[0].body.split("\n")).toHaveLength(17);
+
+			const symbol = await run(true, [{ path: "big.ts", symbol: "f8000" }]);
+			expect(parseReadManyOutput(symbol.text)[0].body.split("\n")[0]).toBe("export function f8000() {}");
+			expect(symbol.loads).toHaveLength(2); // the whole file to find the symbol, then its lines
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("continues a cut pattern block from its first unshown hunk line", async () => {
+		const lines = Array.from({ length: 200 }, (_, i) => (i % 20 === 0 ? `match ${i + 1}` : `line ${i + 1}`));
+		const tool = createLineTool({ "/a": lines });
+
+		const params = { files: [{ path: "/a", pattern: "^match", context: 1 }], maxLines: 12 };
+		const result = await tool.execute("call-pattern-cut", params, undefined, undefined, { cwd: "/" } as any);
+
+		const details = result.details as any;
+		expect(details.files[0].inclusion).toBe("partial");
+		expect(details.packing.partials[0].ranges).toEqual([
+			{ offset: 1, limit: 2 },
+			{ offset: 20, limit: 3 },
+		]);
+		expect(details.packing.continuation.files[0]).toEqual({
+			path: "/a",
+			ranges: [
+				{ offset: 40, limit: 3 },
+				{ offset: 60, limit: 3 },
+				{ offset: 80, limit: 3 },
+				{ offset: 100, limit: 3 },
+				{ offset: 120, limit: 3 },
+				{ offset: 140, limit: 3 },
+				{ offset: 160, limit: 3 },
+				{ offset: 180, limit: 3 },
+			],
+		});
+	});
+
+	it("reads a symbol's declaration range and names it in the header", async () => {
+		const source = [
+			'import { a } from "./a.js";',
+			"",
+			"/** Adds two numbers. */",
+			"export function add(x: number, y: number): number {",
+			"	return x + y;",
+			"}",
+			"",
+			"export const subtract = (x: number, y: number) => x - y;",
+		];
+		const inputs: ReadInput[] = [];
+		const tool = createLineTool({ "/math.ts": source, "/notes.md": ["# add"] }, inputs);
+
+		const files = [
+			{ path: "/math.ts", symbol: "add" },
+			{ path: "/math.ts", symbol: "substract" },
+			{ path: "/notes.md", symbol: "add" },
+		];
+		const result = await tool.execute("call-symbol", { files }, undefined, undefined, { cwd: "/" } as any);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(parseReadManyOutput(text)[0]).toEqual({
+			path: "/math.ts",
+			body: source.slice(2, 6).join("\n"),
+			partial: false,
+			symbol: { name: "add", startLine: 3, endLine: 6 },
+		});
+		expect(text).toContain("@/math.ts (symbol add, lines 3-6)\n");
+		expect(details.files[0].symbolRange).toEqual({ offset: 3, limit: 4 });
+		expect(inputs).toContainEqual({ path: "/math.ts", offset: 3, limit: 4 });
+
+		expect(details.files[1].error).toBe('Symbol "substract" not found. Closest symbols: subtract, add');
+		expect(details.files[2].error).toBe("Symbol reads support TS/JS files only (/notes.md)");
+	});
+
+	it("numbers body lines with their file line numbers in ranges and partial sections", async () => {
+		const lines = Array.from({ length: 50 }, (_, i) => `a-${i + 1}`);
+		const big = Array.from({ length: 100 }, (_, i) => `big-${i + 1}`);
+		const tool = createLineTool({ "/a.ts": lines, "/big.ts": big });
+
+		const files = [
+			{ path: "/a.ts", offset: 10, limit: 3 },
+			{ path: "/a.ts", ranges: [{ offset: 1, limit: 2 }, { offset: 20, limit: 2 }] },
+			{ path: "/a.ts", offset: 5, limit: 1, lineNumbers: false },
+			{ path: "/big.ts", partialMode: "tail" },
+		];
+		const result = await tool.execute("call-numbers", { files, lineNumbers: true, maxLines: 40 }, undefined, undefined, {
+			cwd: "/",
+		} as any);
+
+		const text = (result.content[0] as any).text as string;
+		const [offsetBlock, rangesBlock, plainBlock, tailBlock] = parseReadManyOutput(text);
+		expect(offsetBlock.body).toBe("10: a-10\n11: a-11\n12: a-12");
+		expect(rangesBlock.body).toBe("1: a-1\n2: a-2\n[... lines 3-19 elided ...]\n20: a-20\n21: a-21");
+		expect(plainBlock.body).toBe("a-5");
+		expect(tailBlock.partial).toBe(true);
+		expect(tailBlock.body.split("\n").at(-1)).toBe("100: big-100");
+		const details = result.details as any;
+		expect(details.files[3].includedLines).toBeGreaterThan(0);
+		expect(details.packing.continuation.files[0]).toMatchObject({ path: "/big.ts", lineNumbers: true });
+	});
+
+	it("replaces reads the session already received unchanged with a one-line notice", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-dedupe-"));
+		try {
+			const big = Array.from({ length: 100 }, (_, i) => `big-${i}`).join("\n");
+			await writeFile(join(dir, "a.ts"), "a");
+			await writeFile(join(dir, "big.ts"), big);
+			const cache = createReadCache();
+			const tool = createReadManyTool(undefined, {}, cache);
+			const run = async (params: Record<string, unknown>) => {
+				const result = await tool.execute("call-dedupe", params, undefined, undefined, { cwd: dir } as any);
+				return { text: (result.content[0] as any).text as string, details: result.details as any };
+			};
+
+			cache.turn = 3;
+			const first = await run({ files: [{ path: "a.ts" }, { path: "big.ts" }], maxLines: 40 });
+			expect(first.details.files.map((file: any) => file.inclusion)).toEqual(["full", "partial"]);
+
+			cache.turn = 4;
+			const second = await run({ files: [{ path: "a.ts" }, { path: "big.ts" }], maxLines: 40 });
+			const [a, partialBig] = parseReadManyOutput(second.text);
+			expect(a.body).toBe("[unchanged since previous read_many at turn 3]");
+			expect(second.details.files[0].unchangedSince).toBe(3);
+			// Only reads packed in full count as received.
+			expect(partialBig.body).toContain("big-0");
+
+			const forced = await run({ files: [{ path: "a.ts", force: true }] });
+			expect(parseReadManyOutput(forced.text)[0].body).toBe("a");
+			expect(parseReadManyOutput((await run({ files: [{ path: "a.ts" }] })).text)[0].body).toBe(
+				"[unchanged since previous read_many at turn 4]",
+			);
+
+			await writeFile(join(dir, "a.ts"), "changed");
+			expect(parseReadManyOutput((await run({ files: [{ path: "a.ts" }] })).text)[0].body).toBe("changed");
+			expect(parseReadManyOutput((await run({ files: [{ path: "a.ts", offset: 1 }] })).text)[0].body).toBe("changed");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("adds file metadata to headers and details when asked", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-metadata-"));
+		try {
+			const big = Array.from({ length: 5000 }, (_, i) => `big-${i}`).join("\n");
+			await writeFile(join(dir, "a.ts"), "one\ntwo\n");
+			await writeFile(join(dir, "big.md"), big);
+
+			const result = await createReadManyTool().execute(
+				"call-metadata",
+				{ files: [{ path: "a.ts" }, { path: "big.md" }], maxLines: 40, metadata: true },
+				undefined,
+				undefined,
+				{ cwd: dir } as any,
+			);
+
+			const text = (result.content[0] as any).text as string;
+			const details = result.details as any;
+			const [a, partialBig] = parseReadManyOutput(text);
+			expect(a.body).toBe("one\ntwo\n");
+			expect(a.metadata).toMatch(/^lines 1-3 of 3 · 8B · modified \S+Z · typescript · sha [0-9a-f]{8}$/);
+			expect(details.files[0]).toMatchObject({
+				totalLines: 3,
+				shownRanges: [{ offset: 1, limit: 3 }],
+				size: 8,
+				language: "typescript",
+			});
+			expect(details.files[0].contentHash).toBe(a.metadata?.slice(-8));
+
+			const shown = partialBig.body.split("\n").length;
+			expect(partialBig.metadata).toMatch(new RegExp(`^lines 1-${shown} of 5000 · `));
+			expect(details.files[1].inclusion).toBe("partial");
+			expect(details.files[1].shownRanges).toEqual([{ offset: 1, limit: shown }]);
+			expect(text.split("\n").length).toBeLessThanOrEqual(40);
+
+			const plain = await createReadManyTool().execute("call-plain", { files: [{ path: "a.ts" }] }, undefined, undefined, {
+				cwd: dir,
+			} as any);
+			expect((plain.content[0] as any).text).toMatch(/^@a\.ts\n/);
+			expect((plain.details as any).files[0].totalLines).toBeUndefined();
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("reads files at a git revision and expands changed entries to their hunks", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-git-"));
+		const git = (...args: string[]) =>
+			execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@example.com", ...args], { cwd: dir });
+		try {
+			const lines = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+			git("init", "-q", "-b", "main");
+			await writeFile(join(dir, "a.ts"), lines("l", 20).join("\n"));
+			await writeFile(join(dir, "gone.ts"), "gone");
+			await writeFile(join(dir, "keep.ts"), lines("k", 5).join("\n"));
+			git("add", ".");
+			git("commit", "-q", "-m", "base");
+			git("checkout", "-q", "-b", "feature");
+			await writeFile(join(dir, "a.ts"), lines("l", 20).join("\n").replace("l10", "changed-10"));
+			git("rm", "-q", "gone.ts");
+			git("commit", "-q", "-am", "feature");
+			await writeFile(join(dir, "keep.ts"), lines("k", 5).join("\n").replace("k2\n", ""));
+			await writeFile(join(dir, "new.ts"), "new");
+
+			const tool = createReadManyTool();
+			const run = async (params: Record<string, unknown>) => {
+				const result = await tool.execute("call-git", params, undefined, undefined, { cwd: dir } as any);
+				return { text: (result.content[0] as any).text as string, details: result.details as any };
+			};
+
+			const atRef = await run({ files: [{ path: "a.ts", ref: "main", offset: 10, limit: 1 }] });
+			expect(atRef.text).toMatch(/^@a\.ts \(at main\)\n/);
+			expect(parseReadManyOutput(atRef.text)[0]).toMatchObject({ path: "a.ts", ref: "main" });
+			expect(parseReadManyOutput(atRef.text)[0].body.split("\n")[0]).toBe("l10");
+			const missing = await run({ files: [{ path: "new.ts", ref: "main" }] });
+			expect(missing.details.files[0].error).toContain("new.ts");
+			// Revisions that look like options never reach git, which would otherwise write the file.
+			const optionRef = await run({ files: [{ path: "a.ts", ref: "--output=out:" }] });
+			expect(optionRef.details.files[0].error).toBe('Invalid git revision "--output=out:": revisions cannot start with "-"');
+			const optionBase = await run({ files: [{ path: ".", changed: { base: "--output=out" } }] });
+			expect(optionBase.details.files[0].error).toContain("revisions cannot start with");
+			expect(execFileSync("git", ["status", "--porcelain", "--", "out*", "--output*"], { cwd: dir }).toString()).toBe("");
+
+			const changed = await run({ files: [{ path: ".", changed: { base: "main", context: 1 } }] });
+			expect(changed.details.files.map((file: any) => [file.path, file.source])).toEqual([
+				["a.ts", "changed since main"],
+				["gone.ts", "changed since main"],
+				["keep.ts", "changed since main"],
+				["new.ts", "changed since main"],
+			]);
+			const [a, gone, keep, added] = parseReadManyOutput(changed.text);
+			expect(a.body.startsWith("l9\nchanged-10\nl11\n")).toBe(true);
+			expect(gone.body).toBe("[Error: Deleted since main]");
+			expect(keep.body.startsWith("k1\nk3\n")).toBe(true);
+			expect(added.body).toBe("new");
+
+			const full = await run({ files: [{ path: "a.ts", changed: { base: "main", mode: "full" } }] });
+			expect(parseReadManyOutput(full.text)[0].body).toContain("l1\nl2");
+
+			// A partial block at a revision resumes at that revision, not in the working tree.
+			const partial = await run({ files: [{ path: "a.ts", ref: "main" }], maxLines: 8 });
+			const [resume] = partial.details.packing.continuation.files;
+			expect(resume).toMatchObject({ path: "a.ts", ref: "main" });
+			const resumed = await run({ continueFrom: partial.details.packing.continuation, maxLines: 100 });
+			expect(parseReadManyOutput(resumed.text)[0].body).toContain("l10\nl11");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("reads only the start of large files the output leaves out, with the output of full reads", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "read-many-window-"));
+		try {
+			const lines = (name: string) =>
+				Array.from({ length: 4000 }, (_, i) => (i % 500 === 0 ? `export function ${name}${i}() {` : `\t// ${name} line ${i + 1}: ${"x".repeat(60)}`));
+			const files = ["a", "b", "c", "d"].map((name) => ({ path: `${name}.ts` }));
+			for (const name of ["a", "b", "c", "d"]) {
+				await writeFile(join(dir, `${name}.ts`), lines(name).join("\n"));
+			}
+			await writeFile(join(dir, "small.ts"), "export const small = 1;");
+
+			// Counts the bytes the read tool loads; `windowed` lets read_many pass its own operations.
+			const countingTool = (windowed: boolean) => {
+				const counter = { bytes: 0 };
+				const fullOperations: ReadOperations = {
+					readFile: (path) => readFile(path),
+					access: (path) => access(path),
+				};
+				const factory = (cwd: string, options?: ReadToolOptions) => {
+					const operations = (windowed && options?.operations) || fullOperations;
+					return createReadTool(cwd, {
+						operations: {
+							...operations,
+							readFile: async (path) => {
+								const buffer = await operations.readFile(path);
+								counter.bytes += buffer.length;
+								return buffer;
+							},
+						},
+					});
+				};
+				return { tool: createReadManyTool(factory), counter };
+			};
+			const run = async (windowed: boolean, params: Record<string, unknown>) => {
+				const { tool, counter } = countingTool(windowed);
+				const result = await tool.execute("call-window", params, undefined, undefined, { cwd: dir } as any);
+				return { text: (result.content[0] as any).text as string, details: result.details as any, bytes: counter.bytes };
+			};
+
+			for (const params of [
+				{ files },
+				{ files: [{ path: "small.ts" }, files[0]] },
+				{ files, maxLines: 300 },
+				{ files, maxLines: 8000, maxBytes: 200 * 1024 },
+			]) {
+				const full = await run(false, params);
+				const windowed = await run(true, params);
+				expect(windowed.text).toBe(full.text);
+				expect(windowed.details.packing).toEqual(full.details.packing);
+			}
+
+			// Neither the partial block nor the outlined files need more than the start of each file.
+			const large = await run(true, { files });
+			expect(large.details.files.map((file: any) => file.inclusion)).toEqual(["partial", "outline", "outline", "outline"]);
+			expect(large.details.files[1].truncation).toBeUndefined();
+			expect(large.bytes).toBeLessThan((await run(false, { files })).bytes / 2);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("reads large batches past 26 files within the budget", async () => {
+		const body = Array.from({ length: 50 }, (_, i) => `line-${i}`).join("\n");
+		const map: Record<string, StubReadResult> = {};
+		const files = Array.from({ length: 200 }, (_, i) => {
+			map[`/f${i}`] = { content: [{ type: "text", text: body }] };
+			return { path: `/f${i}` };
+		});
+		const tool = createToolWithMap(map, { maxFiles: 200 });
+
+		const result = await tool.execute("call-large", { files, maxLines: 2000 }, undefined, undefined, {
+			cwd: "/",
+		} as any);
+
+		const text = (result.content[0] as any).text as string;
+		const details = result.details as any;
+		expect(details.files).toHaveLength(200);
+		expect(details.packing.fullIncludedCount).toBe(37); // 53 lines per block plus a blank line between blocks
+		expect(details.packing.continuation.files).toHaveLength(163);
+		expect(details.packing.continuation.files[0]).toEqual({ path: "/f37" });
+		expect(text.split("\n").length).toBeLessThanOrEqual(2000);
+		expect(text).toContain(`<<'PINE_27_${createPathHash("/f26")}'`);
+	});
+
+	it("rejects calls with more entries than maxFiles", async () => {
+		const tool = createToolWithMap({}, { maxFiles: 2 });
+		const files = [{ path: "/a" }, { path: "/b" }, { path: "/c" }];
+		await expect(tool.execute("call-cap", { files }, undefined, undefined, { cwd: "/" } as any)).rejects.toThrow(
+			"read_many accepts at most 2 entries per call (got 3)",
+		);
+		expect((tool.parameters as any).properties.files.maxItems).toBe(2);
+		expect((createToolWithMap({}, { maxFiles: 10_000 }).parameters as any).properties.files.maxItems).toBe(500);
+	});
+
+	it("rejects calls without any file entries", async () => {
+		const tool = createToolWithMap({});
+		await expect(tool.execute("call-10", {}, undefined, undefined, { cwd: "/" } as any)).rejects.toThrow(
+			"read_many requires at least one entry",
+		);
 	});
 });
@@ -0,0 +1,53 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createReadManyTool } from "../../read-many.js";
+import { createWindowedReadOperations } from "../../read-window.js";
+
+// An image well past the read window, which must still load whole.
+const PNG = Buffer.concat([
+	Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]),
+	Buffer.alloc(300_000, 0x07),
+]);
+
+let workspace: string;
+
+beforeEach(async () => {
+	workspace = await mkdtemp(join(tmpdir(), "read-many-window-"));
+	await writeFile(join(workspace, "big.png"), PNG);
+	await writeFile(join(workspace, "big.txt"), Array.from({ length: 20_000 }, (_, i) => `line ${i + 1}`).join("\n"));
+});
+
+afterEach(async () => {
+	await rm(workspace, { recursive: true, force: true });
+});
+
+describe("read_many: read windows", () => {
+	it("loads the start of large text files up to the last complete line, and images whole", async () => {
+		const windowed = createWindowedReadOperations(1000);
+		const text = (await windowed.operations.readFile(join(workspace, "big.txt"))).toString("utf-8");
+		expect(text.length).toBeLessThanOrEqual(1000);
+		expect(text.endsWith("\n")).toBe(false);
+		expect(text.split("\n").at(-1)).toMatch(/^line \d+$/);
+		expect(windowed.clipped()).toBe(true);
+
+		const images = createWindowedReadOperations(1000);
+		expect(await images.operations.detectImageMimeType?.(join(workspace, "big.png"))).toBe("image/png");
+		expect((await images.operations.readFile(join(workspace, "big.png"))).equals(PNG)).toBe(true);
+		expect(images.clipped()).toBe(false);
+	});
+
+	it("attaches images larger than the read window intact", async () => {
+		const result = await createReadManyTool().execute(
+			"call-window-image",
+			{ files: [{ path: "big.png" }], maxImageBytes: 1024 * 1024 },
+			undefined,
+			undefined,
+			{ cwd: workspace } as any,
+		);
+
+		const image = result.content.find((part) => part.type === "image") as any;
+		expect(Buffer.from(image.data, "base64").equals(PNG)).toBe(true);
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { createReadManyTool } from "../../read-many.js";
+import { renderReadManyCall, renderReadManyResult } from "../../render.js";
+
+// Plain-text theme: drops styling so rendered lines can be asserted directly.
+const theme = {
+	fg: (_color: string, text: string) => text,
+	bold: (text: string) => text,
+} as any;
+
+function renderLines(component: { render(width: number): string[] }): string[] {
+	return component.render(200).map((line) => line.trimEnd());
+}
+
+describe("read_many: rendering", () => {
+	it("lists requested paths with their ranges in the call view", () => {
+		const lines = renderLines(
+			renderReadManyCall(
+				{
+					files: [
+						{ path: "src/a.ts", pattern: "TODO" },
+						{ path: "src/b.ts", offset: 40, limit: 120, required: true },
+						{ path: "src/c.ts", ranges: [{ offset: 1, limit: 40 }, { offset: 300 }], priority: 3 },
+						{ path: "src/d.ts", ref: "HEAD~1", offset: 1, limit: 10 },
+						{ path: ".", changed: { base: "main" } },
+					],
+					continueFrom: { files: [{ path: "src/big.ts", offset: 1201 }] },
+					maxLines: 500,
+				},
+				theme,
+			),
+		);
+
+		expect(lines).toEqual([
+			"read_many 6 entries (budget 500 lines)",
+			"  src/big.ts:1201- (continued)",
+			"  src/a.ts /TODO/",
+			"  src/b.ts:40-159 (required)",
+			"  src/c.ts:1-40,300- (priority 3)",
+			"  src/d.ts@HEAD~1:1-10",
+			"  . (changed since main)",
+		]);
+	});
+
+	it("shows progress for partial results", () => {
+		const lines = renderLines(
+			renderReadManyResult(
+				{
+					content: [],
+					details: {
+						progress: {
+							totalCount: 5,
+							doneCount: 2,
+							successCount: 1,
+							errorCount: 1,
+							bytes: 2048,
+							lines: 40,
+							lastPath: "/a",
+						},
+					},
+				},
+				{ expanded: false, isPartial: true },
+				theme,
+			),
+		);
+		expect(lines).toEqual(["Reading 2/5 files (1 ok, 1 failed) · 2.0KB / 40 lines"]);
+	});
+
+	it("renders a per-file status table, and the content when expanded", async () => {
+		const big = Array.from({ length: 100 }, (_, i) => `line-${i}`).join("\n");
+		const stubs: Record<string, string | Error> = { "/a": "a", "/big": big, "/err": new Error("missing"), "/big2": big };
+		const tool = createReadManyTool(
+			() =>
+				({
+					execute: async (_id: string, input: { path: string }) => {
+						const value = stubs[input.path];
+						if (value instanceof Error) {
+							throw value;
+						}
+						return { content: [{ type: "text", text: value }] };
+					},
+				}) as any,
+		);
+		const result = await tool.execute(
+			"call-render",
+			{ files: [{ path: "/a" }, { path: "/big" }, { path: "/err" }, { path: "/big2" }], maxLines: 40 },
+			undefined,
+			undefined,
+			{ cwd: "/" } as any,
+		);
+
+		const collapsed = renderLines(renderReadManyResult(result as any, { expanded: false, isPartial: false }, theme));
+		expect(collapsed[0]).toMatch(/^3 ok, 1 failed · request-order · budget 40 lines \/ 50\.0KB · 3 to continue$/);
+		expect(collapsed[1]).toMatch(/^status\s+lines\s+bytes\s+path$/);
+		expect(collapsed[2]).toMatch(/^full\s+4\s+\S+B\s+\/a$/);
+		expect(collapsed[3]).toMatch(/^partial\s+\d+\s+\S+B\s+\/big$/);
+		expect(collapsed[4]).toMatch(/^error\s+0\s+0B\s+\/err \(missing\)$/);
+		expect(collapsed[5]).toMatch(/^omitted\s+0\s+0B\s+\/big2$/);
+		expect(collapsed).toHaveLength(6);
+
+		const expanded = renderLines(renderReadManyResult(result as any, { expanded: true, isPartial: false }, theme));
+		expect(expanded.slice(0, 6)).toEqual(collapsed);
+		expect(expanded).toContain("@/a");
+		expect(expanded).toContain("line-0");
+	});
+});
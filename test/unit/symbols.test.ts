@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { resolveSymbol, suggestSymbols } from "../../symbols.js";
+
+const source = [
+	'import { a } from "./a.js";', // 0
+	"",
+	"/**",
+	" * Builds the widget.",
+	" */",
+	"export function createWidget(options: { name: string }): Widget {", // 5
+	"	const label = `${options.name} {`;",
+	"	return { label }; // }",
+	"}",
+	"",
+	"export type WidgetKind =", // 10
+	'	| "small"',
+	'	| "large";',
+	"",
+	"// Default widget size.",
+	"const SIZE = 3", // 15
+	"",
+	"/* license */",
+	"export function render(widget: Widget): string;",
+	"export function render(widget: Widget, width: number): string;",
+	"export function render(widget: Widget, width = SIZE): string {", // 20
+	"	return widget.label.padEnd(width);",
+	"}",
+	"export interface Widget {",
+	"	label: string;",
+	"}", // 25
+];
+
+describe("read_many: symbols", () => {
+	it("resolves declarations with their leading docs, overloads and continuation lines", () => {
+		expect(resolveSymbol(source, "createWidget")).toEqual({ start: 2, end: 9 });
+		expect(resolveSymbol(source, "WidgetKind")).toEqual({ start: 10, end: 13 });
+		expect(resolveSymbol(source, "SIZE")).toEqual({ start: 14, end: 16 });
+		expect(resolveSymbol(source, "render")).toEqual({ start: 18, end: 23 });
+		expect(resolveSymbol(source, "Widget")).toEqual({ start: 23, end: 26 });
+		expect(resolveSymbol(source, "label")).toEqual({ start: 6, end: 7 });
+		expect(resolveSymbol(source, "missing")).toBeUndefined();
+	});
+
+	it("suggests the closest declared names", () => {
+		expect(suggestSymbols(source, "createwidgets")[0]).toBe("createWidget");
+		expect(suggestSymbols(source, "Widgt")).toHaveLength(5);
+		expect(suggestSymbols(source, "Widgt")[0]).toBe("Widget");
+		expect(suggestSymbols(["const a = 1;"], "b")).toEqual(["a"]);
+		expect(suggestSymbols(["plain text"], "b")).toEqual([]);
+	});
+});